@@ -0,0 +1,48 @@
+import { DisplayMode, TaskEntry } from "../types";
+import { filterWithAncestors } from "./filter";
+import { isoDay } from "./query";
+
+export const defaultDisplay = (): DisplayMode => ({ hideCompleted: false, completedDays: 0, hideEmpty: false, openSubtrees: false });
+
+export const isDisplayActive = (m: DisplayMode) => m.hideCompleted || m.hideEmpty || m.openSubtrees;
+
+/** Oldest completion date still shown, or "" when every completed task is hidden. */
+export function completedCutoff(m: DisplayMode, now = new Date()): string {
+	if (m.completedDays <= 0) return "";
+	const d = new Date(now);
+	d.setDate(d.getDate() - m.completedDays);
+	return isoDay(d);
+}
+
+/**
+ * Whether the display toggles hide this task on its own. A done task without a
+ * ✅ date counts as old. Subtrees are handled by `applyDisplay`.
+ */
+export function isRowHidden(entry: TaskEntry, m: DisplayMode, isDone: (status: string) => boolean, cutoff: string): boolean {
+	if (!m.hideCompleted || !isDone(entry.status)) return false;
+	return !cutoff || !entry.meta.done || entry.meta.done < cutoff;
+}
+
+/**
+ * The file's entries left by the display toggles, in order: with "open subtrees"
+ * a top-level task and everything under it go unless some task in it is open;
+ * a hidden task stays while a subtask of it is shown so depths still read correctly.
+ */
+export function applyDisplay(items: TaskEntry[], m: DisplayMode, isDone: (status: string) => boolean): TaskEntry[] {
+	if (m.openSubtrees) {
+		const byId = new Map(items.map((e) => [e.id, e] as [string, TaskEntry]));
+		const rootOf = (e: TaskEntry) => {
+			let cur = e;
+			while (cur.parentId && byId.has(cur.parentId)) cur = byId.get(cur.parentId)!;
+			return cur.id;
+		};
+		const open = new Set(items.filter((e) => !isDone(e.status)).map(rootOf));
+		items = items.filter((e) => open.has(rootOf(e)));
+	}
+	if (!m.hideCompleted) return items;
+	const cutoff = completedCutoff(m);
+	return filterWithAncestors(items, (e) => !isRowHidden(e, m, isDone, cutoff));
+}
+
+/** Whether any of the entries is still open; files without one go when "hide empty" is on. */
+export const hasOpenTask = (items: TaskEntry[], isDone: (status: string) => boolean) => items.some((e) => !isDone(e.status));
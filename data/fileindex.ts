@@ -0,0 +1,104 @@
+import { App, Plugin, TAbstractFile, TFile } from "obsidian";
+import type { TaskTableRule } from "../main";
+import { CompiledRule } from "../types";
+import { compileRules, getMatchedRules } from "./scan";
+
+/** Paths that came into or dropped out of the index. */
+export type IndexListener = (paths: string[]) => void;
+
+/**
+ * The notes the rules select, kept in memory and up to date with the vault.
+ * Built once when the workspace is ready and again when the rules change;
+ * after that, created, renamed and deleted notes are added or dropped one by
+ * one and open tables are told which paths changed.
+ */
+export class FileIndex {
+	private paths = new Set<string>();
+	private compiled: CompiledRule[] = [];
+	private listeners = new Set<IndexListener>();
+	private built = false;
+
+	constructor(private app: App, private getRules: () => TaskTableRule[]) {}
+
+	/** Subscribes to the vault and the metadata cache for the lifetime of `plugin`. */
+	register(plugin: Plugin) {
+		const { vault, metadataCache, workspace } = this.app;
+		plugin.registerEvent(vault.on("create", (af) => this.update(af)));
+		plugin.registerEvent(vault.on("delete", (af) => this.update(af)));
+		plugin.registerEvent(vault.on("rename", (af, oldPath) => {
+			const dropped = this.paths.delete(oldPath);
+			this.update(af, dropped ? [oldPath] : []);
+		}));
+		// tag and frontmatter rules depend on a note's contents, so an edit can add or drop it
+		plugin.registerEvent(metadataCache.on("changed", (file) => {
+			if (this.getRules().some((r) => r.type === "tag" || r.type === "frontmatter")) this.update(file);
+		}));
+		// the vault can still be loading when the plugin is
+		workspace.onLayoutReady(() => this.rebuild());
+	}
+
+	/**
+	 * Re-evaluates every note against the current rules and returns how many are listed.
+	 * Open tables hear about the difference unless `quiet` (the settings tab while typing).
+	 */
+	rebuild(quiet = false): number {
+		this.compiled = compileRules(this.app, this.getRules() ?? []);
+		const next = new Set<string>();
+		for (const f of this.app.vault.getMarkdownFiles()) {
+			if (this.matches(f)) next.add(f.path);
+		}
+		const changed: string[] = [];
+		for (const p of next) if (!this.paths.has(p)) changed.push(p);
+		for (const p of this.paths) if (!next.has(p)) changed.push(p);
+		this.paths = next;
+		this.built = true;
+		if (!quiet) this.emit(changed);
+		return next.size;
+	}
+
+	files(): TFile[] {
+		if (!this.built) this.rebuild(true);
+		const out: TFile[] = [];
+		for (const p of Array.from(this.paths).sort((a, b) => a.localeCompare(b))) {
+			const af = this.app.vault.getAbstractFileByPath(p);
+			if (af instanceof TFile) out.push(af);
+		}
+		return out;
+	}
+
+	has(path: string): boolean {
+		return this.paths.has(path);
+	}
+
+	get size(): number {
+		return this.paths.size;
+	}
+
+	/** Returns the unsubscribe function. */
+	subscribe(fn: IndexListener): () => void {
+		this.listeners.add(fn);
+		return () => { this.listeners.delete(fn); };
+	}
+
+	// `changed` carries paths already dropped by the caller (a rename's old path)
+	private update(af: TAbstractFile, changed: string[] = []) {
+		if (!this.built) return;
+		const listed = this.paths.has(af.path);
+		const matches = af instanceof TFile && this.app.vault.getAbstractFileByPath(af.path) === af && this.matches(af);
+		if (listed !== matches) {
+			if (matches) this.paths.add(af.path);
+			else this.paths.delete(af.path);
+			changed.push(af.path);
+		}
+		this.emit(changed);
+	}
+
+	private matches(file: TFile): boolean {
+		return file.extension === "md" && getMatchedRules(file, this.compiled).length > 0;
+	}
+
+	private emit(paths: string[]) {
+		if (!paths.length) return;
+		for (const fn of this.listeners) fn(paths);
+	}
+}
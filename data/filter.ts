@@ -0,0 +1,39 @@
+import { TagFilter, TaskEntry } from "../types";
+
+export const emptyTagFilter = (): TagFilter => ({ include: [], exclude: [], mode: "and" });
+
+export const isTagFilterActive = (f: TagFilter) => f.include.length > 0 || f.exclude.length > 0;
+
+/** Every tag used by any scanned task, sorted for a stable chip order. */
+export function collectTags(tasksByFile: Map<string, TaskEntry[]>): string[] {
+	const tags = new Set<string>();
+	for (const tasks of tasksByFile.values()) {
+		for (const t of tasks) for (const tag of t.meta.tags) tags.add(tag.toLowerCase());
+	}
+	return Array.from(tags).sort((a, b) => a.localeCompare(b));
+}
+
+export function matchesTagFilter(entry: TaskEntry, f: TagFilter): boolean {
+	const tags = new Set(entry.meta.tags.map((t) => t.toLowerCase()));
+	if (f.exclude.some((t) => tags.has(t))) return false;
+	if (!f.include.length) return true;
+	return f.mode === "and" ? f.include.every((t) => tags.has(t)) : f.include.some((t) => tags.has(t));
+}
+
+/**
+ * Keeps entries that pass `keep`, plus every ancestor of a kept entry so the
+ * depth numbering of a matching subtask still reads correctly. Order is preserved.
+ */
+export function filterWithAncestors(items: TaskEntry[], keep: (e: TaskEntry) => boolean): TaskEntry[] {
+	const byId = new Map(items.map((e) => [e.id, e] as [string, TaskEntry]));
+	const visible = new Set<string>();
+	for (const e of items) {
+		if (!keep(e)) continue;
+		let cur: TaskEntry | undefined = e;
+		while (cur && !visible.has(cur.id)) {
+			visible.add(cur.id);
+			cur = cur.parentId ? byId.get(cur.parentId) : undefined;
+		}
+	}
+	return items.filter((e) => visible.has(e.id));
+}
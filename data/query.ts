@@ -0,0 +1,233 @@
+import { TaskEntry } from "../types";
+import { PRIORITIES } from "../utils/meta";
+import { taskTextFromLine } from "../utils/text";
+
+type Predicate = (e: TaskEntry) => boolean;
+type SortField = "due" | "scheduled" | "start" | "done" | "priority" | "text" | "path" | "depth";
+type SortKey = { field: SortField; reverse: boolean };
+
+export type QueryError = { line: number; message: string };
+export type Query = { filters: Predicate[]; sorts: SortKey[]; errors: QueryError[] };
+
+const DATE_FIELDS = ["due", "scheduled", "start", "done"] as const;
+const SORT_FIELDS: SortField[] = ["due", "scheduled", "start", "done", "priority", "text", "path", "depth"];
+
+const pad = (n: number) => (n < 10 ? `0${n}` : String(n));
+export const isoDay = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+
+// relative words are resolved on every evaluation so an open table rolls over at midnight
+const resolveDate = (word: string): (() => string) | null => {
+	const w = word.trim().toLowerCase();
+	if (/^\d{4}-\d{2}-\d{2}$/.test(w)) return () => w;
+	const offsets: Record<string, number> = { today: 0, tomorrow: 1, yesterday: -1 };
+	if (w in offsets) return () => {
+		const d = new Date();
+		d.setDate(d.getDate() + offsets[w]);
+		return isoDay(d);
+	};
+	const m = w.match(/^in (\d+) days?$/) ?? w.match(/^(\d+) days? ago$/);
+	if (m) {
+		const n = Number(m[1]) * (w.endsWith("ago") ? -1 : 1);
+		return () => {
+			const d = new Date();
+			d.setDate(d.getDate() + n);
+			return isoDay(d);
+		};
+	}
+	return null;
+};
+
+const unquote = (s: string) => {
+	const t = s.trim();
+	const m = t.match(/^"(.*)"$/) ?? t.match(/^'(.*)'$/);
+	return m ? m[1] : t;
+};
+
+const compare = (a: number, op: string, b: number) => {
+	switch (op) {
+		case "<": return a < b;
+		case "<=": return a <= b;
+		case ">": return a > b;
+		case ">=": return a >= b;
+		case "!=": return a !== b;
+		default: return a === b;
+	}
+};
+
+// whether a checkbox symbol counts as done, looked up in the status registry at evaluation time
+type IsDone = (status: string) => boolean;
+
+function parseLine(line: string, isDone: IsDone): Predicate | SortKey {
+	const l = line.trim();
+	const lower = l.toLowerCase();
+
+	if (lower === "done") return (e) => isDone(e.status);
+	if (lower === "not done") return (e) => !isDone(e.status);
+
+	let m = lower.match(/^sort by (\w+)(\s+reverse)?$/);
+	if (m) {
+		if (!SORT_FIELDS.includes(m[1] as SortField)) throw new Error(`Cannot sort by "${m[1]}"`);
+		return { field: m[1] as SortField, reverse: !!m[2] };
+	}
+
+	m = lower.match(/^(has|no) (due|scheduled|start|done)( date)?$/);
+	if (m) {
+		const field = m[2] as typeof DATE_FIELDS[number];
+		const want = m[1] === "has";
+		return (e) => !!e.meta[field] === want;
+	}
+
+	m = l.match(/^(due|scheduled|start|done) (before|after|on|on or before|on or after) (.+)$/i);
+	if (m) {
+		const field = m[1].toLowerCase() as typeof DATE_FIELDS[number];
+		const op = m[2].toLowerCase();
+		const date = resolveDate(m[3]);
+		if (!date) throw new Error(`Unknown date "${m[3]}"`);
+		return (e) => {
+			const v = e.meta[field];
+			if (!v) return false;
+			const d = date();
+			if (op === "before") return v < d;
+			if (op === "after") return v > d;
+			if (op === "on or before") return v <= d;
+			if (op === "on or after") return v >= d;
+			return v === d;
+		};
+	}
+
+	m = l.match(/^(path|text|tag|tags) (includes|does not include) (.+)$/i);
+	if (m) {
+		const field = m[1].toLowerCase();
+		const negate = m[2].toLowerCase() !== "includes";
+		const needle = unquote(m[3]).toLowerCase();
+		if (!needle) throw new Error("Missing text to match");
+		const hay = (e: TaskEntry) =>
+			field === "path" ? e.file.path
+				: field === "text" ? taskTextFromLine(e.originalLine)
+					: e.meta.tags.join(" ");
+		return (e) => hay(e).toLowerCase().includes(needle) !== negate;
+	}
+
+	m = lower.match(/^depth\s*(<=|>=|!=|<|>|=|is)\s*(\d+)$/);
+	if (m) {
+		const op = m[1] === "is" ? "=" : m[1];
+		const n = Number(m[2]);
+		return (e) => compare(e.depth, op, n);
+	}
+
+	m = lower.match(/^priority (is|is not|above|below) (\w+)$/);
+	if (m) {
+		const rank = PRIORITIES.indexOf(m[2] as typeof PRIORITIES[number]);
+		if (rank < 0 && m[2] !== "none") throw new Error(`Unknown priority "${m[2]}"`);
+		const op = m[1];
+		return (e) => {
+			const r = e.meta.priority ? PRIORITIES.indexOf(e.meta.priority) : -1;
+			if (op === "is") return r === rank;
+			if (op === "is not") return r !== rank;
+			// lower index = more urgent; tasks without a priority rank as medium, like the Tasks plugin
+			const eff = r < 0 ? PRIORITIES.indexOf("medium") : r;
+			return op === "above" ? eff < rank : eff > rank;
+		};
+	}
+
+	throw new Error(`Unrecognized instruction "${l}"`);
+}
+
+/**
+ * The instructions in `source` with the line each sits on: split at newlines and
+ * at ";" outside a quoted value. A quote opens at the start of a word, so the
+ * apostrophe in "don't" doesn't; an unclosed one ends with its line.
+ */
+function splitClauses(source: string): { text: string; line: number }[] {
+	const out: { text: string; line: number }[] = [];
+	let text = "", quote = "", line = 1;
+	for (const ch of source) {
+		if (ch === "\n" || (ch === ";" && !quote)) {
+			out.push({ text, line });
+			text = "";
+			quote = "";
+			if (ch === "\n") line++;
+			continue;
+		}
+		if (quote) {
+			if (ch === quote) quote = "";
+		} else if ((ch === '"' || ch === "'") && !/\S$/.test(text)) quote = ch;
+		text += ch;
+	}
+	out.push({ text, line });
+	return out;
+}
+
+/**
+ * One instruction per line (or separated by ";"). Filters are ANDed together;
+ * each "sort by" adds a sort key, earlier keys winning. Bad lines are reported
+ * and skipped so the remaining instructions still apply.
+ */
+export function parseQuery(source: string, isDone: IsDone): Query {
+	const query: Query = { filters: [], sorts: [], errors: [] };
+	for (const { text: raw, line } of splitClauses(source)) {
+		if (!raw.trim() || raw.trim().startsWith("#")) continue;
+		try {
+			const parsed = parseLine(raw, isDone);
+			if (typeof parsed === "function") query.filters.push(parsed);
+			else query.sorts.push(parsed);
+		} catch (err) {
+			query.errors.push({ line, message: (err as Error).message });
+		}
+	}
+	return query;
+}
+
+export const isQueryActive = (q: Query) => q.filters.length > 0 || q.sorts.length > 0;
+
+export const matchesQuery = (e: TaskEntry, q: Query) => q.filters.every((f) => f(e));
+
+const sortValue = (e: TaskEntry, field: SortField): string | number | undefined => {
+	switch (field) {
+		case "priority": return e.meta.priority ? PRIORITIES.indexOf(e.meta.priority) : PRIORITIES.indexOf("medium");
+		case "text": return taskTextFromLine(e.originalLine).toLowerCase();
+		case "path": return e.file.path;
+		case "depth": return e.depth;
+		default: return e.meta[field];
+	}
+};
+
+/**
+ * Sorts siblings under each parent, so a subtree always moves together
+ * and the depth numbering stays intact. Missing values sort last.
+ */
+export function sortEntries(items: TaskEntry[], sorts: SortKey[]): TaskEntry[] {
+	if (!sorts.length) return items;
+	const cmp = (a: TaskEntry, b: TaskEntry) => {
+		for (const s of sorts) {
+			const va = sortValue(a, s.field);
+			const vb = sortValue(b, s.field);
+			if (va === vb) continue;
+			if (va === undefined) return 1;
+			if (vb === undefined) return -1;
+			const r = va < vb ? -1 : 1;
+			return s.reverse ? -r : r;
+		}
+		return a.lineIndex - b.lineIndex;
+	};
+
+	const present = new Set(items.map((e) => e.id));
+	const kids = new Map<string, TaskEntry[]>();
+	const roots: TaskEntry[] = [];
+	for (const e of items) {
+		if (e.parentId && present.has(e.parentId)) {
+			if (!kids.has(e.parentId)) kids.set(e.parentId, []);
+			kids.get(e.parentId)?.push(e);
+		} else roots.push(e);
+	}
+
+	const out: TaskEntry[] = [];
+	const walk = (list: TaskEntry[]) => {
+		for (const e of list.sort(cmp)) {
+			out.push(e);
+			walk(kids.get(e.id) ?? []);
+		}
+	};
+	walk(roots);
+	return out;
+}
@@ -1,47 +1,135 @@
-import { App, TFile } from "obsidian";
-import { CompiledRule, FileBucket, GroupBucket, ScanResult, TaskEntry } from "../types";
-import { rootTokenFromLine, getIndentDepth, TASK_RX } from "../utils/text";
-
-export const compileRules = (rules: { name: string; re: string }[]) =>
+import { App, ListItemCache, TFile, getAllTags } from "obsidian";
+import type { MyPluginSettings, TaskTableRule } from "../main";
+import { CompiledRule, FileBucket, GroupBucket, ScanResult, TaskEntry, TaskHeading } from "../types";
+import {
+	blockIdOf, blockOf, continuationEnd, fencedLines, getIndentDepth, isBlankLine, leadingWidth, parseHeading, parseTaskLine,
+} from "../utils/text";
+import { parseMeta } from "../utils/meta";
+import { indentOf } from "../utils/indent";
+
+/** Compiles the rules that have a pattern; ones that don't compile (a broken regex) are left out. */
+export const compileRules = (app: App, rules: TaskTableRule[]) =>
 	rules
 		.map((r) => {
 			try {
-				return { name: r.name ?? "", re: new RegExp(r.re) } as CompiledRule;
+				return compileRule(app, r);
 			} catch {
 				return null;
 			}
 		})
 		.filter(Boolean) as CompiledRule[];
 
+/** Why a rule can't be used as typed; null when it can. An empty pattern isn't an error, it just matches nothing. */
+export function ruleError(rule: TaskTableRule): string | null {
+	const pattern = (rule.pattern ?? "").trim();
+	if (!pattern) return null;
+	switch (rule.type) {
+		case "tag":
+			return /\s/.test(pattern) ? "A tag can't contain spaces." : null;
+		case "frontmatter":
+			return pattern.split(":")[0].trim() ? null : "Write a property as key or key: value.";
+		case "glob":
+			try { globToRegExp(pattern); return null; } catch { return "Unbalanced { } in the glob."; }
+		default:
+			try { new RegExp(rule.pattern); return null; } catch (e) { return (e as Error).message; }
+	}
+}
+
+function compileRule(app: App, rule: TaskTableRule): CompiledRule | null {
+	const pattern = (rule.pattern ?? "").trim();
+	if (!pattern) return null;
+	const base = { name: rule.name ?? "", exclude: !!rule.exclude };
+	switch (rule.type) {
+		case "glob": {
+			const re = globToRegExp(pattern);
+			return { ...base, matches: (file) => re.test(file.path) };
+		}
+		case "tag": {
+			const tag = pattern.replace(/^#/, "").toLowerCase();
+			return { ...base, matches: (file) => fileTags(app, file).some((t) => t === tag || t.startsWith(`${tag}/`)) };
+		}
+		case "frontmatter": {
+			const [key, ...rest] = pattern.split(":");
+			const value = rest.join(":").trim().toLowerCase();
+			return { ...base, matches: (file) => frontmatterMatches(app, file, key.trim(), value) };
+		}
+		default: {
+			const re = new RegExp(rule.pattern);
+			return { ...base, matches: (file) => re.test(file.path) };
+		}
+	}
+}
+
+/** `**` spans folders, `*` and `?` stay within one, `{a,b}` picks one of several. */
+export function globToRegExp(glob: string): RegExp {
+	let out = "";
+	let braces = 0;
+	for (let i = 0; i < glob.length; i++) {
+		const c = glob[i];
+		if (c === "*" && glob[i + 1] === "*") {
+			const slash = glob[i + 2] === "/";
+			out += slash ? "(?:.*/)?" : ".*";
+			i += slash ? 2 : 1;
+		} else if (c === "*") out += "[^/]*";
+		else if (c === "?") out += "[^/]";
+		else if (c === "{") { out += "(?:"; braces++; }
+		else if (c === "}" && braces) { out += ")"; braces--; }
+		else if (c === "," && braces) out += "|";
+		else out += c.replace(/[.+^$()|[\]{}\\]/g, "\\$&");
+	}
+	return new RegExp(`^${out}$`);
+}
+
+// lower-cased, without the leading #; from the frontmatter and the body
+function fileTags(app: App, file: TFile): string[] {
+	const cache = app.metadataCache.getFileCache(file);
+	return cache ? (getAllTags(cache) ?? []).map((t) => t.replace(/^#/, "").toLowerCase()) : [];
+}
+
+// `key` alone asks for the property to be set; list properties match when any item does
+function frontmatterMatches(app: App, file: TFile, key: string, value: string): boolean {
+	const fm = app.metadataCache.getFileCache(file)?.frontmatter;
+	if (!fm || !(key in fm)) return false;
+	if (!value) return fm[key] !== null && fm[key] !== undefined && fm[key] !== "";
+	const values: unknown[] = Array.isArray(fm[key]) ? fm[key] : [fm[key]];
+	return values.some((v) => String(v).trim().toLowerCase() === value);
+}
+
 /**
  * Rules:
  * - If ALL rule names are empty => single-layer UI (file headers only).
  * - Otherwise => group by rule.name; a file may appear under multiple groups if matched by different rules.
  *   (Within the same group, the file appears only once even if multiple rules with the same group name match.)
+ * - Exclude rules take files back out: a named one only from its group, an unnamed one from all of them.
  */
 
+export type ScanOptions = Pick<MyPluginSettings, "blockIds" | "fileSort" | "manualOrder">;
+
 // Accepts a pre-indexed list of files; does not discover new files.
+// With `blockIds`, a task's `^id` anchor is its id instead of its line.
 export async function scanTasks(
 	app: App,
 	compiled: CompiledRule[],
-	files: TFile[]
+	files: TFile[],
+	options: ScanOptions
 ): Promise<ScanResult> {
 	const tasksByFile = new Map<string, TaskEntry[]>();
 	const childrenById = new Map<string, string[]>();
 	if (!compiled.length || files.length === 0)
 		return { groups: [], tasksByFile, childrenById, hasGroups: false };
 
-	const hasGroups = compiled.some((c) => (c.name ?? "").trim().length > 0);
+	const hasGroups = compiled.some((c) => !c.exclude && (c.name ?? "").trim().length > 0);
 	const groupsMap = new Map<string, Map<string, FileBucket>>();
 	const flatFiles = new Map<string, FileBucket>();
+	const usedIds = new Set<string>();
 
 	for (const file of files) {
 		const path = file.path;
-		const matched = getMatchedRules(path, compiled);
+		const matched = getMatchedRules(file, compiled);
 		if (!matched.length) continue;
 
 		// Cached parse
-		const { entries: rawEntries, childrenById: localChildren } = await getCachedFileParse(app, file);
+		const { entries: rawEntries, childrenById: localChildren } = withUniqueIds(await getCachedFileParse(app, file, options.blockIds), usedIds);
 
 		// Merge into global maps
 		if (rawEntries.length) tasksByFile.set(path, rawEntries);
@@ -55,51 +143,105 @@ export async function scanTasks(
 		addFileToGroups(path, fileName, rawEntries, matched, hasGroups, flatFiles, groupsMap);
 	}
 
-	const groups = buildGroupBuckets(hasGroups, flatFiles, groupsMap);
+	const groups = buildGroupBuckets(app, hasGroups, flatFiles, groupsMap, compiled, options);
 	return { groups, tasksByFile, childrenById, hasGroups };
 }
 
-async function getCachedFileParse(app: App, file: TFile): Promise<{ entries: TaskEntry[]; childrenById: Map<string, string[]> }> {
+type FileParse = { entries: TaskEntry[]; childrenById: Map<string, string[]> };
+
+/**
+ * Tasks of one note. Obsidian's metadata cache says which lines are tasks and
+ * how they nest, so notes without tasks are never read; the text itself comes
+ * from `cachedRead`. Without a cache entry, or when it no longer fits the text,
+ * task lines are recognized by their syntax and nested by indentation instead.
+ */
+async function getCachedFileParse(app: App, file: TFile, useBlockIds: boolean): Promise<FileParse> {
 	const path = file.path;
 	const mtime = file.stat?.mtime ?? 0;
 	const cached = TASK_PARSE_CACHE.get(path);
 
-	if (cached && cached.mtime === mtime) {
+	if (cached && cached.mtime === mtime && cached.useBlockIds === useBlockIds) {
 		return { entries: cached.entries, childrenById: cached.childrenById };
 	}
 
-	const lines = (await app.vault.read(file)).split("\n");
+	const meta = app.metadataCache.getFileCache(file);
+	if (meta && !meta.listItems?.some((li) => li.task !== undefined)) {
+		TASK_PARSE_CACHE.set(path, { mtime, useBlockIds, entries: [], childrenById: new Map() });
+		return { entries: [], childrenById: new Map() };
+	}
+
+	const lines = (await app.vault.cachedRead(file)).split("\n");
+	// lines of code blocks are never headings or tasks
+	const fenced = fencedLines(lines);
+	const outline = meta?.listItems ? taskOutline(meta.listItems, lines, fenced) : null;
+	const indent = indentOf(app, lines);
 	const entries: TaskEntry[] = [];
 	const childrenById = new Map<string, string[]>();
-	let currentRootKey = "", currentRootToken = "", lastRootKey = "", lastRootToken = "";
+	let currentRootKey = "", lastRootKey = "";
+	// tasks whose block is still open, innermost last; non-task lines indented under one become its notes.
+	// Blocks end where findSubtreeEnd ends them, so what a row shows is what moves with it.
+	const holders: { entry: TaskEntry; under: (line: string, afterBlank: boolean) => boolean }[] = [];
+	let blanks: string[] = [];
+	// the heading above the current line; repeated heading texts are numbered
+	let heading: TaskHeading | undefined;
+	const headingCount = new Map<string, number>();
+	const blockIds = new Set<string>();
 
 	for (let i = 0; i < lines.length; i++) {
 		const line = lines[i];
-		if (!TASK_RX.test(line)) continue;
-		const depth = getIndentDepth(line);
-		const id = `${path}::${i}`;
+		const code = fenced.has(i);
+		const task = !code && (!outline || outline.has(i)) ? parseTaskLine(line) : null;
+		if (isBlankLine(line)) { blanks.push(line); continue; }
+		const h = code ? null : parseHeading(line);
+		if (h) {
+			const n = (headingCount.get(h.text) ?? 0) + 1;
+			headingCount.set(h.text, n);
+			heading = { ...h, lineIndex: i, line, key: `${h.text}#${n}` };
+			holders.length = 0;
+			blanks = [];
+			continue;
+		}
+		while (holders.length && !holders[holders.length - 1].under(line, blanks.length > 0)) holders.pop();
+		if (!task) {
+			const holder = holders[holders.length - 1]?.entry;
+			if (holder) {
+				// blank lines count only between notes, not before the first
+				if (holder.notes.length) holder.notes.push(...blanks);
+				holder.notes.push(line);
+			}
+			blanks = [];
+			continue;
+		}
+		blanks = [];
+		const depth = getIndentDepth(line, indent);
+		const last = continuationEnd(lines, i);
+		const blockId = blockIdOf(lines[last]);
+		// a pasted copy repeats its original's block id; only the first keeps it as id
+		const id = useBlockIds && blockId && !blockIds.has(blockId) ? `^${blockId}` : `${path}::${i}`;
+		if (blockId) blockIds.add(blockId);
 
 		if (depth === 1) {
 			currentRootKey = id;
-			currentRootToken = rootTokenFromLine(line);
 			lastRootKey = currentRootKey;
-			lastRootToken = currentRootToken;
 		} else {
 			if (!currentRootKey) currentRootKey = lastRootKey || `${path}::first`;
-			if (!currentRootToken) currentRootToken = lastRootToken || "untitled-root";
 		}
 
-		entries.push({
-			file, lineIndex: i, originalLine: line, depth,
-			rootKey: currentRootKey, rootToken: currentRootToken, id,
-		});
+		const entry: TaskEntry = {
+			file, lineIndex: i, originalLine: line, continuation: lines.slice(i + 1, last + 1), depth,
+			rootKey: currentRootKey, id,
+			status: task.status, meta: parseMeta(line), notes: [], heading, blockId,
+		};
+		// without the cache, a task nests under the closest task whose block it is in; a heading clears them
+		if (!outline) entry.parentId = holders[holders.length - 1]?.entry.id;
+		entries.push(entry);
+		holders.push({ entry, under: blockOf(line) });
+		i = last;
 	}
 
-	const stack: TaskEntry[] = [];
-	for (const e of entries) {
-		while (stack.length && stack[stack.length - 1].depth >= e.depth) stack.pop();
-		e.parentId = stack.length ? stack[stack.length - 1].id : undefined;
-		stack.push(e);
+	if (outline) {
+		const idByLine = new Map(entries.map((e) => [e.lineIndex, e.id] as [number, string]));
+		for (const e of entries) e.parentId = idByLine.get(outline.get(e.lineIndex) ?? -1);
 	}
 
 	for (const e of entries) {
@@ -108,7 +250,65 @@ async function getCachedFileParse(app: App, file: TFile): Promise<{ entries: Tas
 		childrenById.get(e.parentId)!.push(e.id);
 	}
 
-	TASK_PARSE_CACHE.set(path, { mtime, entries, childrenById });
+	TASK_PARSE_CACHE.set(path, { mtime, useBlockIds, entries, childrenById });
+	return { entries, childrenById };
+}
+
+// any list marker, inside blockquotes too, followed by a checkbox
+const LIST_TASK_RX = /^[\s>]*(?:[-*+]|\d+[.)])\s+\[(.)\]/;
+
+/**
+ * Task lines of a note by the metadata cache, each with the line of the closest
+ * task above it in the list (-1 at the top), stepping over plain and numbered
+ * items in between. Tasks written in a way the table can't write back (more
+ * than one space before the checkbox) are left out. Null when the cache is behind
+ * the text, that is when its task lines aren't the ones found in the text.
+ */
+function taskOutline(items: ListItemCache[], lines: string[], fenced: Set<number>): Map<number, number> | null {
+	const byLine = new Map<number, ListItemCache>();
+	for (const li of items) byLine.set(li.position.start.line, li);
+	const shown = (line: number) => byLine.get(line)?.task !== undefined && !!parseTaskLine(lines[line]);
+	// a root item's parent is minus the list's first line, which is 0 for a list at the top:
+	// then the item there is a sibling, not a parent, unless it is indented less
+	const parentOf = (line: number): number => {
+		const li = byLine.get(line);
+		const at = li ? byLine.get(li.parent) : undefined;
+		if (!li || !at || li.parent >= line) return -1;
+		const sibling = at.parent === li.parent && leadingWidth(lines[li.parent]) >= leadingWidth(lines[line]);
+		return sibling ? -1 : li.parent;
+	};
+
+	for (const [line, li] of byLine) if (li.task !== undefined && line >= lines.length) return null;
+	for (let i = 0; i < lines.length; i++) {
+		const cached = byLine.get(i)?.task;
+		const found = fenced.has(i) ? undefined : lines[i].match(LIST_TASK_RX)?.[1];
+		if (cached !== found) return null;
+	}
+
+	const outline = new Map<number, number>();
+	for (const line of byLine.keys()) {
+		if (!shown(line)) continue;
+		let parent = parentOf(line);
+		while (parent >= 0 && !shown(parent)) parent = parentOf(parent);
+		outline.set(line, parent);
+	}
+	return outline;
+}
+
+/**
+ * Block ids are only unique within a note, so a task whose id an earlier note
+ * already uses falls back to its line. The cached parse is left untouched.
+ */
+function withUniqueIds(parse: FileParse, used: Set<string>): FileParse {
+	const clash = new Map<string, string>();
+	for (const e of parse.entries) if (used.has(e.id)) clash.set(e.id, `${e.file.path}::${e.lineIndex}`);
+	for (const e of parse.entries) used.add(clash.get(e.id) ?? e.id);
+	if (!clash.size) return parse;
+
+	const rekey = (id: string) => clash.get(id) ?? id;
+	const entries = parse.entries.map((e) => ({ ...e, id: rekey(e.id), parentId: e.parentId && rekey(e.parentId), rootKey: rekey(e.rootKey) }));
+	const childrenById = new Map<string, string[]>();
+	for (const [pid, kids] of parse.childrenById) childrenById.set(rekey(pid), kids.map(rekey));
 	return { entries, childrenById };
 }
 
@@ -118,8 +318,11 @@ export function invalidateCachedFile(path: string) {
 }
 
 
-function getMatchedRules(path: string, compiled: CompiledRule[]): CompiledRule[] {
-	return compiled.filter((c) => c.re.test(path));
+/** The include rules that list `file`, after exclude rules have had their say. Empty when it isn't listed. */
+export function getMatchedRules(file: TFile, compiled: CompiledRule[]): CompiledRule[] {
+	const excluded = compiled.filter((c) => c.exclude && c.matches(file)).map((c) => c.name.trim());
+	if (excluded.includes("")) return [];
+	return compiled.filter((c) => !c.exclude && !excluded.includes(c.name.trim()) && c.matches(file));
 }
 
 function extractFileName(path: string): string {
@@ -130,32 +333,13 @@ function extractFileName(path: string): string {
 
 type CachedParse = {
 	mtime: number;
+	useBlockIds: boolean;
 	entries: TaskEntry[];
 	// children index for this file only
 	childrenById: Map<string, string[]>;
 };
 const TASK_PARSE_CACHE = new Map<string, CachedParse>();
 
-/** Builds parent/child relationships in a list of TaskEntry objects. */
-function buildParentChildLinks(entries: TaskEntry[]): Map<string, string[]> {
-	const childrenById = new Map<string, string[]>();
-	const stack: TaskEntry[] = [];
-
-	for (const e of entries) {
-		while (stack.length && stack[stack.length - 1].depth >= e.depth) stack.pop();
-		e.parentId = stack.length ? stack[stack.length - 1].id : undefined;
-		stack.push(e);
-	}
-
-	for (const e of entries) {
-		if (!e.parentId) continue;
-		if (!childrenById.has(e.parentId)) childrenById.set(e.parentId, []);
-		childrenById.get(e.parentId)!.push(e.id);
-	}
-
-	return childrenById;
-}
-
 /** Groups a parsed file into either flat or named group buckets. */
 function addFileToGroups(
 	path: string,
@@ -184,26 +368,57 @@ function addFileToGroups(
 	}
 }
 
-/** Converts file/group maps into final GroupBucket[] for output. */
+/** Converts file/group maps into final GroupBucket[] for output; groups come in the order of their first rule. */
 function buildGroupBuckets(
+	app: App,
 	hasGroups: boolean,
 	flatFiles: Map<string, FileBucket>,
-	groupsMap: Map<string, Map<string, FileBucket>>
+	groupsMap: Map<string, Map<string, FileBucket>>,
+	compiled: CompiledRule[],
+	options: ScanOptions
 ): GroupBucket[] {
 	if (!hasGroups) {
-		const filesArr = Array.from(flatFiles.values()).sort((a, b) =>
-			a.fileName.localeCompare(b.fileName)
-		);
+		const filesArr = sortFiles(app, Array.from(flatFiles.values()), "__ALL__", options);
 		return [{ key: "__ALL__", name: "", files: filesArr }];
 	}
 
-	const names = Array.from(groupsMap.keys()).sort((a, b) => a.localeCompare(b));
+	const names = Array.from(new Set(compiled.filter((c) => !c.exclude).map((c) => c.name.trim())))
+		.filter((n) => groupsMap.has(n));
 	const groups: GroupBucket[] = [];
 	for (const gName of names) {
-		const filesArr = Array.from(groupsMap.get(gName)!.values()).sort((a, b) =>
-			a.fileName.localeCompare(b.fileName)
-		);
+		const filesArr = sortFiles(app, Array.from(groupsMap.get(gName)!.values()), gName, options);
 		groups.push({ key: gName, name: gName, files: filesArr });
 	}
 	return groups;
 }
+
+/** A group's files in the `fileSort` order; ties, and files the order doesn't place, go by name. */
+function sortFiles(app: App, files: FileBucket[], groupKey: string, options: ScanOptions): FileBucket[] {
+	const byName = (a: FileBucket, b: FileBucket) => a.fileName.localeCompare(b.fileName);
+	const byRank = (rank: (fb: FileBucket) => number) => (a: FileBucket, b: FileBucket) => {
+		const ra = rank(a), rb = rank(b);
+		return ra === rb ? byName(a, b) : ra < rb ? -1 : 1;
+	};
+	// buckets are only made for files with tasks, so items[0] is there
+	const stat = (fb: FileBucket) => fb.items[0].file.stat;
+	switch (options.fileSort) {
+		case "mtime":
+			return files.sort(byRank((fb) => -(stat(fb)?.mtime ?? 0)));
+		case "ctime":
+			return files.sort(byRank((fb) => -(stat(fb)?.ctime ?? 0)));
+		case "frontmatter":
+			return files.sort(byRank((fb) => {
+				const order = parseFloat(String(app.metadataCache.getFileCache(fb.items[0].file)?.frontmatter?.order));
+				return Number.isFinite(order) ? order : Infinity;
+			}));
+		case "manual": {
+			const order = options.manualOrder[groupKey] ?? [];
+			return files.sort(byRank((fb) => {
+				const at = order.indexOf(fb.filePath);
+				return at < 0 ? Infinity : at;
+			}));
+		}
+		default:
+			return files.sort(byName);
+	}
+}
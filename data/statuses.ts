@@ -0,0 +1,56 @@
+import { TaskEntry } from "../types";
+
+/** One checkbox symbol the table knows about (`- [/] task` has symbol "/"). */
+export type TaskStatus = {
+	symbol: string;
+	name: string;
+	// counts as completed for queries
+	done: boolean;
+	// symbol the status toggle switches to on click
+	next: string;
+	// rows with this status are listed in the table
+	show: boolean;
+};
+
+export const DEFAULT_STATUSES: TaskStatus[] = [
+	{ symbol: " ", name: "To do", done: false, next: "x", show: true },
+	{ symbol: "x", name: "Done", done: true, next: " ", show: true },
+	{ symbol: "X", name: "Done", done: true, next: " ", show: true },
+	{ symbol: "/", name: "In progress", done: false, next: "x", show: true },
+	{ symbol: "-", name: "Cancelled", done: true, next: " ", show: true },
+	{ symbol: ">", name: "Deferred", done: false, next: " ", show: true },
+	{ symbol: "?", name: "Question", done: false, next: "x", show: true },
+	{ symbol: "!", name: "Important", done: false, next: "x", show: true },
+];
+
+export const defaultStatuses = (): TaskStatus[] => DEFAULT_STATUSES.map((s) => ({ ...s }));
+
+/** Registry entry for a symbol; symbols missing from the registry are shown as open tasks. */
+export function statusOf(statuses: TaskStatus[], symbol: string): TaskStatus {
+	return statuses.find((s) => s.symbol === symbol)
+		?? { symbol, name: `Unknown [${symbol}]`, done: false, next: "x", show: true };
+}
+
+export function nextStatus(statuses: TaskStatus[], symbol: string): string {
+	const next = statusOf(statuses, symbol).next;
+	return next.length === 1 ? next : " ";
+}
+
+export const isDoneStatus = (statuses: TaskStatus[], symbol: string) => statusOf(statuses, symbol).done;
+
+/** The symbol for marking tasks done: the registry's first done status, "x" when there is none. */
+export const doneSymbol = (statuses: TaskStatus[]): string => statuses.find((s) => s.done)?.symbol ?? "x";
+
+/** Drops tasks whose status is switched off in settings, together with their subtasks. */
+export function withoutHiddenStatuses(items: TaskEntry[], statuses: TaskStatus[]): TaskEntry[] {
+	const hidden = new Set(statuses.filter((s) => !s.show).map((s) => s.symbol));
+	if (!hidden.size) return items;
+	const dropped = new Set<string>();
+	return items.filter((e) => {
+		if (hidden.has(e.status) || (e.parentId && dropped.has(e.parentId))) {
+			dropped.add(e.id);
+			return false;
+		}
+		return true;
+	});
+}
@@ -0,0 +1,121 @@
+import { TFile } from "obsidian";
+import { Store } from "../state/store";
+import { RowRef } from "../types";
+import { buildLine, findSubtreeEnd, parseTaskLine } from "../utils/text";
+import { IndentStyle, indentOf } from "../utils/indent";
+import { cutLines, movedBlock, placeLines, shiftLines } from "./move";
+import { FileEdit, MissingFileError, locateRow, processFiles } from "./files";
+
+// Bulk versions of the row actions: every row is looked up in its note first and
+// the touched notes are written all or nothing, inside a single undo step.
+
+type Range = { start: number; end: number };
+// the line indices the note's selected rows are found at now
+type RowsEdit = (lines: string[], starts: number[], path: string) => void;
+
+// one edit per note holding any of `rows`, each finding those rows before `edit` runs
+function rowEdits(store: Store, rows: RowRef[], edit: RowsEdit): FileEdit[] {
+	const byPath = new Map<string, FileEdit>();
+	for (const row of rows) {
+		if (byPath.has(row.filePath)) continue;
+		const file = store.app.vault.getAbstractFileByPath(row.filePath);
+		if (!(file instanceof TFile)) throw new MissingFileError(row.filePath);
+		const own = rows.filter((r) => r.filePath === row.filePath);
+		byPath.set(row.filePath, {
+			file,
+			edit: (lines) => {
+				// identical tasks each keep their own line
+				const taken = new Set<number>();
+				const starts = own.map((r) => {
+					const at = locateRow(lines, r, taken);
+					taken.add(at);
+					return at;
+				});
+				edit(lines, starts, row.filePath);
+			},
+		});
+	}
+	return Array.from(byPath.values());
+}
+
+async function writeAll(store: Store, label: string, edits: FileEdit[]): Promise<string[]> {
+	await store.history.transact(label, (tx) => processFiles(store, edits, tx));
+	return edits.map((e) => e.file.path);
+}
+
+/** Subtrees starting at `starts` in one file, top-down; rows inside another selected subtree ride along with it. */
+function subtreeRanges(lines: string[], starts: number[]): Range[] {
+	const out: Range[] = [];
+	for (const start of starts.slice().sort((a, b) => a - b)) {
+		if (out.length && start <= out[out.length - 1].end) continue;
+		out.push({ start, end: findSubtreeEnd(lines, start) });
+	}
+	return out;
+}
+
+export async function bulkSetStatus(store: Store, rows: RowRef[], status: string): Promise<string[]> {
+	return writeAll(store, "Set task status", rowEdits(store, rows, (lines, starts) => {
+		for (const at of starts) {
+			const t = parseTaskLine(lines[at]);
+			if (t) lines[at] = buildLine(lines[at], status, t.text);
+		}
+	}));
+}
+
+export async function bulkDelete(store: Store, rows: RowRef[]): Promise<string[]> {
+	return writeAll(store, "Delete tasks", rowEdits(store, rows, (lines, starts) => {
+		const ranges = subtreeRanges(lines, starts);
+		for (let i = ranges.length - 1; i >= 0; i--) cutLines(lines, ranges[i].start, ranges[i].end);
+	}));
+}
+
+/** Indents or outdents each selected subtree; ones that can't move (no sibling above, already top level) stay. */
+export async function bulkShift(store: Store, rows: RowRef[], delta: 1 | -1): Promise<string[]> {
+	return writeAll(store, delta > 0 ? "Indent tasks" : "Outdent tasks", rowEdits(store, rows, (lines, starts) => {
+		const style = indentOf(store.app, lines);
+		for (const { start } of subtreeRanges(lines, starts)) shiftLines(lines, start, delta, style);
+	}));
+}
+
+/** Moves the selected subtrees to the end of `destPath` as top-level tasks, in file order. */
+export async function bulkMoveToFile(store: Store, rows: RowRef[], destPath: string): Promise<string[]> {
+	const dest = store.app.vault.getAbstractFileByPath(destPath);
+	if (!(dest instanceof TFile)) throw new MissingFileError(destPath);
+
+	// the blocks taken out of each note and how it indents, filled in by its edit
+	const moved = new Map<string, { blocks: string[][]; style: IndentStyle }>();
+	const take = (lines: string[], starts: number[], path: string) => {
+		const ranges = subtreeRanges(lines, starts);
+		const blocks: string[][] = [];
+		const style = indentOf(store.app, lines);
+		for (let i = ranges.length - 1; i >= 0; i--) {
+			const { start, end } = ranges[i];
+			blocks.unshift(cutLines(lines, start, end));
+		}
+		moved.set(path, { blocks, style });
+	};
+	const append = (lines: string[]) => {
+		let insertAt = lines.length;
+		if (insertAt > 0 && lines[insertAt - 1] === "") insertAt--;
+		const style = indentOf(store.app, lines);
+		for (const { blocks, style: from } of moved.values()) {
+			for (const b of blocks) {
+				const block = movedBlock(store, b, lines, 1, style, from);
+				placeLines(lines, insertAt, block);
+				insertAt += block.length;
+			}
+		}
+		if (lines[lines.length - 1] !== "") lines.push("");
+	};
+
+	// the destination goes last, after every block is out; when it holds selected rows itself, in one edit
+	const edits = rowEdits(store, rows, take);
+	const own = edits.find((e) => e.file === dest);
+	if (own) {
+		edits.splice(edits.indexOf(own), 1);
+		edits.push({ file: dest, edit: (lines) => { own.edit(lines); append(lines); } });
+	} else {
+		edits.push({ file: dest, edit: append });
+	}
+	return writeAll(store, "Move tasks", edits);
+}
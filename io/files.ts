@@ -0,0 +1,163 @@
+import { TFile } from "obsidian";
+import { Store } from "../state/store";
+import { FileChange, Recorder } from "../state/history";
+import { invalidateCachedFile } from "../data/scan";
+import { RowRef } from "../types";
+import { parseTaskLine } from "../utils/text";
+
+/** A row's lines can't be found in its note any more (see locateRow). */
+export class StaleRowError extends Error {
+	constructor(readonly row: RowRef) {
+		super(`Task "${row.originalLine.trim()}" changed in ${row.filePath} since the table was drawn.`);
+		this.name = "StaleRowError";
+	}
+}
+
+/** A note the table was about to write is gone (deleted or renamed). */
+export class MissingFileError extends Error {
+	constructor(path: string) {
+		super(`${path} no longer exists.`);
+		this.name = "MissingFileError";
+	}
+}
+
+/** The lines a row was rendered from: its task line and continuation lines. */
+export const rowLines = (row: RowRef): string[] => [row.originalLine, ...row.continuation];
+
+const blockAt = (lines: string[], at: number, block: string[]) => block.every((l, k) => lines[at + k] === l);
+
+/**
+ * Where `block` starts now: `hint` when it still holds it, else the nearest exact
+ * copy (lines added or removed above it). -1 when the task is gone or edited.
+ * Indices in `taken` are skipped so identical tasks are not both matched to one place.
+ */
+export function locateBlock(lines: string[], hint: number, block: string[], taken?: Set<number>): number {
+	const free = (i: number) => blockAt(lines, i, block) && !taken?.has(i);
+	if (free(hint)) return hint;
+	for (let d = 1; d < lines.length; d++) {
+		if (hint - d >= 0 && free(hint - d)) return hint - d;
+		if (hint + d < lines.length && free(hint + d)) return hint + d;
+	}
+	return -1;
+}
+
+/**
+ * Best guess at what became of an edited task: the nearest task with the same
+ * text (only its status changed), else whatever task now sits at `hint`. -1 if none.
+ */
+export function locateTheirLine(lines: string[], hint: number, base: string): number {
+	const text = parseTaskLine(base)?.text;
+	if (text === undefined) return -1;
+	let best = -1;
+	lines.forEach((ln, i) => {
+		if (parseTaskLine(ln)?.text === text && (best < 0 || Math.abs(i - hint) < Math.abs(best - hint))) best = i;
+	});
+	if (best >= 0) return best;
+	return parseTaskLine(lines[hint] ?? "") ? hint : -1;
+}
+
+/** Where the row's lines start now (see locateBlock); throws StaleRowError when they are gone or edited. */
+export function locateRow(lines: string[], row: RowRef, taken?: Set<number>): number {
+	const at = locateBlock(lines, row.lineIndex, rowLines(row), taken);
+	if (at < 0) throw new StaleRowError(row);
+	return at;
+}
+
+type Applied<T> = { file: TFile; before: string; after: string; result: T };
+export type FileEdit = { file: TFile; edit: (lines: string[]) => void };
+
+// one read-modify-write inside `vault.process`, so nothing else writes the note in between.
+// `edit` changes the lines in place; when it throws, the note is left as it was.
+async function applyEdit<T>(store: Store, file: TFile, edit: (lines: string[]) => T): Promise<Applied<T>> {
+	let applied: Applied<T> | undefined;
+	await store.app.vault.process(file, (content) => {
+		const lines = content.split("\n");
+		const result = edit(lines);
+		applied = { file, before: content, after: lines.join("\n"), result };
+		return applied.after;
+	});
+	invalidateCachedFile(file.path);
+	if (!applied) throw new MissingFileError(file.path);
+	return applied;
+}
+
+/**
+ * Applies edits to several notes as one unit. Every edit is first tried on the
+ * note as it reads now, so a stale row stops the whole change before anything
+ * is written; if a write still fails, the notes already written are put back.
+ */
+async function commitEdits(store: Store, edits: FileEdit[]): Promise<Applied<void>[]> {
+	for (const { file, edit } of edits) {
+		if (!(store.app.vault.getAbstractFileByPath(file.path) instanceof TFile)) throw new MissingFileError(file.path);
+		edit((await store.app.vault.read(file)).split("\n"));
+	}
+	const done: Applied<void>[] = [];
+	try {
+		for (const { file, edit } of edits) done.push(await applyEdit(store, file, edit));
+	} catch (err) {
+		// a note written by someone else since is left to them
+		for (const d of done.reverse()) {
+			await store.app.vault.process(d.file, (content) => (content === d.after ? d.before : content));
+			invalidateCachedFile(d.file.path);
+		}
+		throw err;
+	}
+	return done;
+}
+
+/** Edits one note atomically and records the change for undo with `tx`; returns what `edit` returned. */
+export async function processFile<T>(store: Store, file: TFile, edit: (lines: string[]) => T, tx: Recorder = store.history): Promise<T> {
+	const { before, after, result } = await applyEdit(store, file, edit);
+	tx.record({ path: file.path, before, after });
+	return result;
+}
+
+/** Edits several notes all or nothing (see commitEdits) and records the changes for undo. */
+export async function processFiles(store: Store, edits: FileEdit[], tx: Recorder = store.history) {
+	for (const { file, before, after } of await commitEdits(store, edits)) {
+		tx.record({ path: file.path, before, after });
+	}
+}
+
+/**
+ * Replays recorded changes backwards (undo) or forwards (redo). Every file must
+ * still hold the content the step expects; otherwise nothing is written and
+ * null is returned. Returns the touched paths on success.
+ */
+export async function replayChanges(store: Store, changes: FileChange[], direction: "undo" | "redo"): Promise<string[] | null> {
+	const steps = direction === "undo"
+		? [...changes].reverse().map((c) => ({ path: c.path, from: c.after, to: c.before }))
+		: changes.map((c) => ({ path: c.path, from: c.before, to: c.after }));
+
+	// first and last content of each file over the steps
+	const files = new Map<string, { file: TFile; from: string; to: string }>();
+	for (const step of steps) {
+		const seen = files.get(step.path);
+		if (seen) {
+			if (seen.to !== step.from) return null;
+			seen.to = step.to;
+			continue;
+		}
+		const af = store.app.vault.getAbstractFileByPath(step.path);
+		if (!(af instanceof TFile)) return null;
+		files.set(step.path, { file: af, from: step.from, to: step.to });
+	}
+
+	const edits = Array.from(files.values()).map(({ file, from, to }): FileEdit => ({
+		file,
+		edit: (lines) => {
+			if (lines.join("\n") !== from) throw new ReplayConflict();
+			lines.splice(0, lines.length, ...to.split("\n"));
+		},
+	}));
+	try {
+		await store.withSquelch(() => commitEdits(store, edits));
+	} catch (err) {
+		if (err instanceof ReplayConflict || err instanceof MissingFileError) return null;
+		throw err;
+	}
+	return Array.from(files.keys());
+}
+
+// a note no longer holds what an undo or redo step starts from
+class ReplayConflict extends Error {}
@@ -1,132 +1,234 @@
 import { Store } from "../state/store";
-import { RowRef } from "../types";
-import { TASK_RX, getIndentDepth, lineWithDepth } from "../utils/text";
+import { Recorder } from "../state/history";
+import { RowRef, TaskEntry } from "../types";
+import { TFile } from "obsidian";
+import {
+	blockIdsIn, buildTaskLines, continuationEnd, ensureBlockIds, findSubtreeEnd, getIndentDepth, isBlankLine, isTaskLine, leadingWidth, orderedNumber,
+	orderedSiblings, parseTaskLine, quoteDepth, quotePrefix, reindentBlock, renumberOrdered,
+} from "../utils/text";
+import { IndentStyle, TAB_INDENT, indentOf } from "../utils/indent";
+import { MissingFileError, locateRow, processFile, processFiles } from "./files";
 
 export async function moveAsTopChild(store: Store, source: RowRef, parent: RowRef) {
 	const newDepth = parent.depth + 1;
-	const targetFilePath = parent.filePath;
-	const insertAt = parent.lineIndex + 1;
-	await relocateSubtree(store, source, targetFilePath, insertAt, newDepth);
+	await relocateSubtree(store, source, parent, 1, newDepth);
 }
 
 export async function moveBetweenWithMaxNeighborDepth(store: Store, source: RowRef, target: RowRef, after: boolean) {
-	const destFilePath = target.filePath;
 	const aboveRow = after ? target : getPreviousRowInFile(store, target);
 	const belowRow = after ? getNextRowInFile(store, target) : target;
 	const newDepth = Math.max(aboveRow ? aboveRow.depth : 1, belowRow ? belowRow.depth : 1, 1);
-	const insertAt = after ? target.lineIndex + 1 : target.lineIndex;
-	await relocateSubtree(store, source, destFilePath, insertAt, newDepth);
+	await relocateSubtree(store, source, target, after ? 1 : 0, newDepth);
 }
 
 export async function moveSubtreeToFileEnd(store: Store, source: RowRef, destFilePath: string, newDepth: number) {
-	const srcFile = store.app.vault.getAbstractFileByPath(source.filePath) as any;
-	const destFile = store.app.vault.getAbstractFileByPath(destFilePath) as any;
-
-	const srcContent = await store.app.vault.read(srcFile);
-	const srcLines = srcContent.split("\n");
-
-	const start = source.lineIndex;
-	const srcDepth = getIndentDepth(srcLines[start] ?? source.originalLine);
-	let end = start;
-	for (let i = start + 1; i < srcLines.length; i++) {
-		const ln = srcLines[i]; if (!TASK_RX.test(ln)) break;
-		const d = getIndentDepth(ln); if (d <= srcDepth) break; end = i;
-	}
-	const block = srcLines.slice(start, end + 1);
-	const depthDelta = newDepth - srcDepth;
-	const adjusted = block.map(ln => {
-		if (!TASK_RX.test(ln)) return ln;
-		const d = getIndentDepth(ln);
-		const nd = Math.max(1, d + depthDelta);
-		return lineWithDepth(ln, nd);
+	await store.history.transact("Move task", (tx) => moveSubtreeToFileEndInner(store, source, destFilePath, newDepth, tx));
+}
+
+async function moveSubtreeToFileEndInner(store: Store, source: RowRef, destFilePath: string, newDepth: number, tx: Recorder) {
+	const destFile = store.app.vault.getAbstractFileByPath(destFilePath);
+	if (!(destFile instanceof TFile)) throw new MissingFileError(destFilePath);
+	await moveBlock(store, tx, source, destFile, newDepth, "", () => 0, (lines, block) => {
+		let insertAt = lines.length; if (insertAt > 0 && lines[insertAt - 1] === "") insertAt--;
+		placeLines(lines, insertAt, block);
+		if (lines[lines.length - 1] !== "") lines.push("");
 	});
+}
 
-	await store.app.vault.modify(srcFile, [...srcLines.slice(0, start), ...srcLines.slice(end + 1)].join("\n"));
+export async function deleteSubtree(store: Store, row: RowRef) {
+	const srcFile = store.app.vault.getAbstractFileByPath(row.filePath);
+	if (!(srcFile instanceof TFile)) return;
 
-	const destContent = await store.app.vault.read(destFile);
-	const dLines = destContent.split("\n");
-	let insertAt = dLines.length; if (insertAt > 0 && dLines[insertAt - 1] === "") insertAt--;
-	dLines.splice(insertAt, 0, ...adjusted);
-	const out = dLines.join("\n");
-	await store.app.vault.modify(destFile, out.endsWith("\n") ? out : out + "\n");
+	await store.history.transact("Delete task", (tx) => processFile(store, srcFile, (lines) => {
+		const at = locateRow(lines, row);
+		cutLines(lines, at, findSubtreeEnd(lines, at));
+	}, tx));
 }
 
-export async function deleteSubtree(store: Store, row: RowRef) {
-	const srcFile = store.app.vault.getAbstractFileByPath(row.filePath) as any;
-	if (!srcFile) return;
-
-	const content = await store.app.vault.read(srcFile);
-	const lines = content.split("\n");
-	const start = row.lineIndex;
-	if (start < 0 || start >= lines.length) return;
-
-	const base = lines[start] ?? row.originalLine;
-	if (!TASK_RX.test(base)) return;
-
-	const srcDepth = getIndentDepth(base);
-	let end = start;
-	for (let i = start + 1; i < lines.length; i++) {
-		const ln = lines[i]; if (!TASK_RX.test(ln)) break;
-		const d = getIndentDepth(ln); if (d <= srcDepth) break; end = i;
-	}
+// the block goes right above (offset 0) or below (1) where `anchor` is found now, below its continuation lines
+async function relocateSubtree(store: Store, source: RowRef, anchor: RowRef, offset: 0 | 1, newDepth: number) {
+	const destFile = store.app.vault.getAbstractFileByPath(anchor.filePath);
+	if (!(destFile instanceof TFile)) throw new MissingFileError(anchor.filePath);
+	const insertAtIn = (lines: string[]) => {
+		const at = locateRow(lines, anchor);
+		return offset ? continuationEnd(lines, at) + 1 : at;
+	};
+	await store.history.transact("Move task", (tx) => store.withSquelch(() =>
+		moveBlock(store, tx, source, destFile, newDepth, quotePrefix(anchor.originalLine), insertAtIn, (lines, block, anchorAt, removedAt) => {
+			// within one note, lines below the removed block moved up
+			const insertAt = removedAt !== null && removedAt < anchorAt ? anchorAt - block.length : anchorAt;
+			placeLines(lines, Math.max(0, Math.min(lines.length, insertAt)), block);
+		})));
+}
 
-	const blockLen = end - start + 1;
-	lines.splice(start, blockLen);
-	await store.app.vault.modify(srcFile, lines.join("\n"));
+/**
+ * Takes `source`'s subtree out of its note and hands it, re-indented to `depth`
+ * inside `quote`, to `place` for `destFile`: as one write when both are the
+ * same note (then with the line it was removed from), else as an all-or-nothing
+ * change to both (see processFiles). `anchor` finds the destination's anchor
+ * line before anything is removed. Both rows are looked up where they are now.
+ * The writes are recorded with `tx`.
+ */
+async function moveBlock(
+	store: Store, tx: Recorder, source: RowRef, destFile: TFile, depth: number, quote: string,
+	anchor: (lines: string[]) => number,
+	place: (lines: string[], block: string[], anchorAt: number, removedAt: number | null) => void,
+) {
+	const srcFile = store.app.vault.getAbstractFileByPath(source.filePath);
+	if (!(srcFile instanceof TFile)) throw new MissingFileError(source.filePath);
+	// the block as cut, where it was, and how its note indents
+	let cutBlock: string[] = [];
+	let cutAt = -1;
+	let from = TAB_INDENT;
+	const cut = (lines: string[]) => {
+		cutAt = locateRow(lines, source);
+		from = indentOf(store.app, lines);
+		cutBlock = cutLines(lines, cutAt, findSubtreeEnd(lines, cutAt));
+	};
+
+	if (srcFile === destFile) {
+		await processFile(store, srcFile, (lines) => {
+			const anchorAt = anchor(lines);
+			cut(lines);
+			place(lines, movedBlock(store, cutBlock, lines, depth, from, from, quote), anchorAt, cutAt);
+		}, tx);
+		return;
+	}
+	await processFiles(store, [
+		{ file: srcFile, edit: cut },
+		{ file: destFile, edit: (lines) => {
+			const anchorAt = anchor(lines);
+			place(lines, movedBlock(store, cutBlock, lines, depth, indentOf(store.app, lines), from, quote), anchorAt, null);
+		} },
+	], tx);
 }
 
-async function relocateSubtree(store: Store, source: RowRef, destFilePath: string, insertAtIn: number, newDepth: number) {
-	const srcFile = store.app.vault.getAbstractFileByPath(source.filePath) as any;
-	const destFile = store.app.vault.getAbstractFileByPath(destFilePath) as any;
+/**
+ * A subtree re-indented for its new place in `dest`, a note indented with `style`
+ * (`source` is the style of the note it comes from), inside `quote` there.
+ * Its tasks keep their block ids unless `dest` already uses them; with block ids
+ * on, tasks without one get one, so they take their identity along.
+ */
+export function movedBlock(
+	store: Store, block: string[], dest: string[], depth: number, style: IndentStyle, source: IndentStyle = style, quote = "",
+): string[] {
+	return ensureBlockIds(reindentBlock(block, depth, style, source, quote), blockIdsIn(dest), store.settings.blockIds);
+}
 
-	let srcContent = await store.app.vault.read(srcFile);
-	let srcLines = srcContent.split("\n");
+/** Removes lines `start`..`end` (a subtree); numbered siblings after it close the gap. */
+export function cutLines(lines: string[], start: number, end: number): string[] {
+	const run = orderedSiblings(lines, start);
+	const first = run.length ? orderedNumber(lines[run[0]]) : undefined;
+	const next = run.find((i) => i > end);
+	const block = lines.splice(start, end - start + 1);
+	if (next !== undefined) renumberOrdered(lines, next - block.length, first);
+	return block;
+}
 
-	const start = source.lineIndex;
-	const srcDepth = getIndentDepth(srcLines[start] ?? source.originalLine);
-	let end = start;
-	for (let i = start + 1; i < srcLines.length; i++) {
-		const ln = srcLines[i]; if (!TASK_RX.test(ln)) break;
-		const d = getIndentDepth(ln); if (d <= srcDepth) break; end = i;
-	}
-	const blockLen = end - start + 1;
+/**
+ * Inserts a subtree at `at`. When it lands in a numbered list it takes its place
+ * in the count; the list keeps its first number, or starts at 1 if the block is all of it.
+ */
+export function placeLines(lines: string[], at: number, block: string[]) {
+	lines.splice(at, 0, ...block);
+	const others = orderedSiblings(lines, at).filter((i) => i !== at);
+	if (others.length && others[0] < at) renumberOrdered(lines, at);
+	else renumberOrdered(lines, at, others.length ? orderedNumber(lines[others[0]]) : 1);
+}
 
-	const adjustedBlock = srcLines.slice(start, end + 1).map((ln) => {
-		if (!TASK_RX.test(ln)) return ln;
-		const d = getIndentDepth(ln);
-		const nd = Math.max(1, d + (newDepth - srcDepth));
-		return lineWithDepth(ln, nd);
+/** Inserts a task at `row`'s indentation right after its subtree; returns the new line index. */
+export async function insertSiblingBelow(store: Store, row: RowRef, text = ""): Promise<number | null> {
+	return editRowFile(store, row, "Add task", (lines, start) => {
+		const t = parseTaskLine(lines[start]);
+		if (!t) return null;
+		const at = findSubtreeEnd(lines, start) + 1;
+		placeLines(lines, at, buildTaskLines(`${t.indent}${t.marker} [ ] `, " ", text, undefined, [], indentOf(store.app, lines)));
+		return at;
 	});
+}
 
-	await store.withSquelch(async () => {
-		srcLines.splice(start, blockLen);
-		await store.app.vault.modify(srcFile, srcLines.join("\n"));
-	});
+/**
+ * Indents (+1) or outdents (-1) a task with its subtasks and returns its line index;
+ * null when it can't move. Indenting needs a previous sibling to nest under.
+ */
+export async function shiftSubtree(store: Store, row: RowRef, delta: 1 | -1): Promise<number | null> {
+	return editRowFile(store, row, delta > 0 ? "Indent task" : "Outdent task",
+		(lines, start) => (shiftLines(lines, start, delta, indentOf(store.app, lines)) ? start : null));
+}
 
-	let insertAt = insertAtIn;
-	let destLines: string[];
-	if (srcFile.path === destFile.path) {
-		destLines = srcLines;
-		if (start < insertAt) insertAt -= blockLen;
-	} else {
-		const destContent = await store.app.vault.read(destFile);
-		destLines = destContent.split("\n");
-	}
+/** Re-indents the subtree starting at `start` in place, in the note's `style`; false when it has nowhere to go. */
+export function shiftLines(lines: string[], start: number, delta: 1 | -1, style: IndentStyle): boolean {
+	const depth = getIndentDepth(lines[start], style);
+	if (delta < 0 && depth <= 1) return false;
+	if (delta > 0 && previousSibling(lines, start) < 0) return false;
+
+	const end = findSubtreeEnd(lines, start);
+	placeLines(lines, start, reindentBlock(cutLines(lines, start, end), depth + delta, style));
+	return true;
+}
 
-	insertAt = Math.max(0, Math.min(destLines.length, insertAt));
-	await store.withSquelch(async () => {
-		destLines.splice(insertAt, 0, ...adjustedBlock);
-		await store.app.vault.modify(destFile, destLines.join("\n"));
+/** Swaps a subtree with its previous (-1) or next (+1) sibling; returns the task's new line index. */
+export async function moveSubtreeVertical(store: Store, row: RowRef, dir: -1 | 1): Promise<number | null> {
+	return editRowFile(store, row, "Move task", (lines, start) => {
+		const end = findSubtreeEnd(lines, start);
+		const depth = quoteDepth(lines[start]);
+		const width = leadingWidth(lines[start], depth);
+
+		// siblings trade places, so a numbered list just counts again from its first number
+		const run = orderedSiblings(lines, start);
+		const first = run.length ? orderedNumber(lines[run[0]]) : undefined;
+		let newStart: number;
+		if (dir < 0) {
+			newStart = previousSibling(lines, start);
+			if (newStart < 0) return null;
+			const block = lines.splice(start, end - start + 1);
+			lines.splice(newStart, 0, ...block);
+		} else {
+			const next = end + 1;
+			if (next >= lines.length || !isTaskLine(lines[next]) || leadingWidth(lines[next], depth) !== width) return null;
+			const nextEnd = findSubtreeEnd(lines, next);
+			const block = lines.splice(start, end - start + 1);
+			newStart = nextEnd - block.length + 1;
+			lines.splice(newStart, 0, ...block);
+		}
+		renumberOrdered(lines, newStart, first);
+		return newStart;
 	});
 }
 
-function getPreviousRowInFile(store: Store, ref: RowRef): RowRef | null {
-	const idx = store.rowRefs.findIndex(r => r.id === ref.id);
-	for (let i = idx - 1; i >= 0; i--) if (store.rowRefs[i].filePath === ref.filePath) return store.rowRefs[i];
+// one undo step editing the row's note, given the line the row is found at now; null when the note is gone.
+// `edit` returns null or false for a change it can't make, and then leaves the lines alone.
+async function editRowFile<T>(store: Store, row: RowRef, label: string, edit: (lines: string[], at: number) => T): Promise<T | null> {
+	const file = store.app.vault.getAbstractFileByPath(row.filePath);
+	if (!(file instanceof TFile)) return null;
+	return store.history.transact(label, (tx) => processFile(store, file, (lines) => edit(lines, locateRow(lines, row)), tx));
+}
+
+// line index of the closest task above `start` at the same indentation, within the same parent and quote; -1 if none.
+// Deeper lines in between belong to that sibling's block and are stepped over.
+function previousSibling(lines: string[], start: number): number {
+	const depth = quoteDepth(lines[start]);
+	const width = leadingWidth(lines[start], depth);
+	for (let i = start - 1; i >= 0; i--) {
+		const ln = lines[i];
+		if (isBlankLine(ln)) continue;
+		const w = leadingWidth(ln, depth);
+		if (w > width) continue;
+		return w === width && isTaskLine(ln) ? i : -1;
+	}
+	return -1;
+}
+
+// neighbouring tasks in the table's layout, built or not
+function getPreviousRowInFile(store: Store, ref: RowRef): TaskEntry | null {
+	const rows = store.layoutRows;
+	const idx = rows.findIndex(r => r.entry?.id === ref.id);
+	for (let i = idx - 1; i >= 0; i--) if (rows[i].entry?.file.path === ref.filePath) return rows[i].entry!;
 	return null;
 }
-function getNextRowInFile(store: Store, ref: RowRef): RowRef | null {
-	const idx = store.rowRefs.findIndex(r => r.id === ref.id);
-	for (let i = idx + 1; i < store.rowRefs.length; i++) if (store.rowRefs[i].filePath === ref.filePath) return store.rowRefs[i];
+function getNextRowInFile(store: Store, ref: RowRef): TaskEntry | null {
+	const rows = store.layoutRows;
+	const idx = rows.findIndex(r => r.entry?.id === ref.id);
+	for (let i = idx + 1; i < rows.length; i++) if (rows[i].entry?.file.path === ref.filePath) return rows[i].entry!;
 	return null;
 }
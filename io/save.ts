@@ -1,10 +1,24 @@
+import { Notice, TFile } from "obsidian";
 import { Store } from "../state/store";
-import { buildLine } from "../utils/text";
-import { mountTable } from "../ui/render";
-import { invalidateCachedFile } from "../data/scan";
+import { MetaField, RowRef, TaskHeading } from "../types";
+import { blockIdsIn, buildTaskLines, continuationEnd, fencedLines, mergeTaskLine, newBlockId, parseHeading } from "../utils/text";
+import { setMetaField } from "../utils/meta";
+import { IndentStyle, indentOf } from "../utils/indent";
+import { patchFiles } from "../ui/render";
+import { askConflict } from "../ui/conflict";
+import { MissingFileError, locateBlock, locateRow, locateTheirLine, processFile, rowLines } from "./files";
 
 const autosaveDebounced: WeakMap<Store, number> = new WeakMap();
 
+// stores with a conflict dialog open; autosave holds off until it is answered
+const resolving = new WeakSet<Store>();
+
+type LineEdit = { ref: RowRef; text: string; newLines: string[] };
+
+// the row's lines for `text`; continuation lines it gains are indented in the note's `style`
+const taskLines = (ref: RowRef, status: string, text: string, style?: IndentStyle) =>
+	buildTaskLines(ref.originalLine, status, text, ref.blockId, ref.continuation, style);
+
 export function scheduleAutosave(store: Store) {
 	const prev = autosaveDebounced.get(store);
 	if (prev) window.clearTimeout(prev);
@@ -20,106 +34,230 @@ export function clearAutosave(store: Store | null) {
 	autosaveDebounced.delete(store);
 }
 
+/** Writes typed-but-unsaved text now, so a structural change reads the file the user sees. */
+export async function flushEdits(store: Store) {
+	clearAutosave(store);
+	if (store.dirty) await saveEdits(store);
+}
+
+/**
+ * Writes every row whose text differs from its lines in the note. Each task is
+ * checked first: one that only shifted is written where it is now, one that
+ * was edited or removed elsewhere goes to the conflict dialog instead.
+ */
 export async function saveEdits(store: Store) {
 	if (!store.rowRefs.length || !store.tasksByFile.size) return;
+	if (resolving.has(store)) return;
 	const versionAtStart = store.editsVersion;
-	const byFile = new Map<string, { lineIndex: number; newLine: string }[]>();
+	const byFile = new Map<string, LineEdit[]>();
 
 	for (const ref of store.rowRefs) {
 		const text = (ref.textCell.textContent ?? "").trim();
-		const newLine = buildLine(ref.originalLine, ref.checkbox.checked, text);
+		const newLines = taskLines(ref, ref.status, text);
+		if (newLines.join("\n") === rowLines(ref).join("\n")) continue;
 		if (!byFile.has(ref.filePath)) byFile.set(ref.filePath, []);
-		byFile.get(ref.filePath)!.push({ lineIndex: ref.lineIndex, newLine });
+		byFile.get(ref.filePath)!.push({ ref, text, newLines });
 	}
+	if (!byFile.size) { store.markCleanIf(versionAtStart); return; }
 
+	const conflicts: LineEdit[] = [];
+	const shifted = new Set<string>();
 	try {
 		store.setSaving(true);
-		await store.withSquelch(async () => {
+		await store.withSquelch(() => store.history.transact("Edit tasks", async (tx) => {
 			for (const [path, edits] of byFile.entries()) {
-				edits.sort((a, b) => a.lineIndex - b.lineIndex);
 				const file = store.tasksByFile.get(path)?.[0]?.file;
 				if (!file) continue;
-				const content = await store.app.vault.read(file);
-				const lines = content.split("\n");
-				for (const e of edits) {
-					if (e.lineIndex >= 0 && e.lineIndex < lines.length) {
-						lines[e.lineIndex] = e.newLine;
+				const { placed, missing } = await processFile(store, file, (lines) => {
+					const style = indentOf(store.app, lines);
+					for (const e of edits) e.newLines = taskLines(e.ref, e.ref.status, e.text, style);
+					const taken = new Set<number>();
+					const placed: { e: LineEdit; at: number }[] = [];
+					const missing: LineEdit[] = [];
+					for (const e of edits) {
+						const at = locateBlock(lines, e.ref.lineIndex, rowLines(e.ref), taken);
+						if (at < 0) { missing.push(e); continue; }
+						taken.add(at);
+						placed.push({ e, at });
 					}
-				}
-				await store.app.vault.modify(file, lines.join("\n"));
-				invalidateCachedFile(file.path);
+					// bottom-up, since a task may gain or lose continuation lines
+					placed.sort((a, b) => b.at - a.at);
+					for (const { e, at } of placed) lines.splice(at, rowLines(e.ref).length, ...e.newLines);
+					return { placed, missing };
+				}, tx);
+				conflicts.push(...missing);
+				if (placed.some(({ e, at }) => at !== e.ref.lineIndex || e.newLines.length !== rowLines(e.ref).length)) shifted.add(path);
+				for (const { e } of placed) setRowLines(e.ref, e.newLines);
 			}
-		});
-		for (const ref of store.rowRefs) {
-			const text = (ref.textCell.textContent ?? "").trim();
-			ref.originalLine = buildLine(ref.originalLine, ref.checkbox.checked, text);
-
-		}
+		}));
 		store.markCleanIf(versionAtStart);
 	} catch (e) {
 		console.error(e);
 	} finally {
 		store.setSaving(false);
 	}
+
+	for (const e of conflicts) {
+		await resolveConflict(store, e.ref, e.newLines);
+		shifted.add(e.ref.filePath);
+	}
+	if (shifted.size) await patchFiles(store, Array.from(shifted));
+	if (conflicts.length && store.dirty) scheduleAutosave(store);
+}
+
+function setRowLines(ref: RowRef, lines: string[]) {
+	ref.originalLine = lines[0];
+	ref.continuation = lines.slice(1);
+}
+
+/**
+ * Shows the conflict dialog for a row whose lines no longer match, then writes
+ * the chosen outcome. Asks again if the note changes while the dialog is open.
+ */
+async function resolveConflict(store: Store, ref: RowRef, mine: string[]): Promise<void> {
+	const file = store.app.vault.getAbstractFileByPath(ref.filePath);
+	if (!(file instanceof TFile)) return;
+	resolving.add(store);
+	try {
+		const content = await store.app.vault.read(file);
+		const lines = content.split("\n");
+		const base = rowLines(ref).join("\n");
+		const at = locateTheirLine(lines, ref.lineIndex, ref.originalLine);
+		const theirLines = at >= 0 ? lines.slice(at, continuationEnd(lines, at) + 1) : null;
+		const theirs = theirLines ? theirLines.join("\n") : null;
+		const choice = await askConflict(store.app, { path: ref.filePath, base, mine: mine.join("\n"), theirs });
+		if (choice === "theirs") return;
+
+		const written = await store.withSquelch(() => store.history.transact("Resolve conflict", (tx) =>
+			processFile(store, file, (current) => {
+				if (current.join("\n") !== content) return false;
+				if (theirs === null || !theirLines) current.splice(Math.min(ref.lineIndex, current.length), 0, ...mine);
+				else {
+					const chosen = choice === "merge" ? mergeTaskLine(base, mine.join("\n"), theirs, indentOf(store.app, current)).split("\n") : mine;
+					current.splice(at, theirLines.length, ...chosen);
+				}
+				return true;
+			}, tx)));
+		if (!written) {
+			new Notice("The note changed again while deciding.");
+			return resolveConflict(store, ref, mine);
+		}
+	} finally {
+		resolving.delete(store);
+	}
+}
+
+/** The conflict dialog for a row an action couldn't find in its note: the table's lines against the note's. */
+export async function resolveStaleRow(store: Store, ref: RowRef): Promise<void> {
+	await resolveConflict(store, ref, rowLines(ref));
 }
 
-export async function saveRowImmediate(store: Store, args: {
-	filePath: string;
-	lineIndex: number;
-	originalLine: string;
-	checked: boolean;
-	text: string;
-}) {
-	const { filePath, lineIndex, originalLine, checked, text } = args;
-	const file = store.app.vault.getAbstractFileByPath(filePath) as any;
-	if (!file) return;
+/** Writes one row right away (status toggle, metadata cells) and updates the row to match. */
+export async function saveRowImmediate(store: Store, ref: RowRef, status: string, text: string) {
+	const file = store.app.vault.getAbstractFileByPath(ref.filePath);
+	if (!(file instanceof TFile)) return;
 
+	const before = rowLines(ref);
+	let newLines = taskLines(ref, status, (text ?? "").trim());
+	let at = ref.lineIndex;
 	try {
 		store.setSaving(true);
-		await store.withSquelch(async () => {
-			const content = await store.app.vault.read(file);
-			const lines = content.split("\n");
-			if (lineIndex < 0 || lineIndex >= lines.length) return;
-			const newLine = buildLine(originalLine, checked, (text ?? "").trim());
-			if (lines[lineIndex] === newLine) return;
-			lines[lineIndex] = newLine;
-			await store.app.vault.modify(file, lines.join("\n"));
-			invalidateCachedFile(file.path);
-		});
+		at = await store.withSquelch(() => processFile(store, file, (lines) => {
+			newLines = taskLines(ref, status, (text ?? "").trim(), indentOf(store.app, lines));
+			const found = locateBlock(lines, ref.lineIndex, before);
+			if (found >= 0) lines.splice(found, before.length, ...newLines);
+			return found;
+		}));
 	} finally {
 		store.setSaving(false);
 		// don't mark clean here; batch save may still be pending
 	}
+
+	if (at >= 0) setRowLines(ref, newLines);
+	if (at === ref.lineIndex && newLines.length === before.length) return;
+	if (at < 0) await resolveConflict(store, ref, newLines);
+	// the row's index (or the whole task) is out of date either way
+	await patchFiles(store, [ref.filePath]);
+}
+
+/** Rewrites one metadata field on the task's first line, leaving the rest of the text as typed. */
+export async function saveMetaField(store: Store, ref: RowRef, field: MetaField, value: string | undefined) {
+	const [head, ...rest] = (ref.textCell.textContent ?? "").trim().split("\n");
+	const text = [setMetaField(head.trim(), field, value || undefined), ...rest].join("\n");
+	ref.textCell.textContent = text;
+	await saveRowImmediate(store, ref, ref.status, text);
+}
+
+/** The row's block id; one is added to the end of its text in the note when it has none yet. */
+export async function ensureRowBlockId(store: Store, ref: RowRef): Promise<string> {
+	if (ref.blockId) return ref.blockId;
+	const file = store.app.vault.getAbstractFileByPath(ref.filePath);
+	if (!(file instanceof TFile)) throw new MissingFileError(ref.filePath);
+	const before = rowLines(ref);
+	const after = before.slice();
+	let blockId = "";
+	await store.history.transact("Add block id", (tx) => processFile(store, file, (lines) => {
+		const at = locateRow(lines, ref);
+		// a link has to lead to this task alone
+		blockId = newBlockId(blockIdsIn(lines));
+		after[after.length - 1] = `${before[before.length - 1].trimEnd()} ^${blockId}`;
+		lines.splice(at, before.length, ...after);
+	}, tx));
+	setRowLines(ref, after);
+	ref.blockId = blockId;
+	return blockId;
 }
 
 export async function createNewTaskAtEnd(store: Store, filePath: string, text: string) {
-	const file = store.app.vault.getAbstractFileByPath(filePath) as any;
-	if (!file) return;
+	await createNewTask(store, filePath, text, (lines) => {
+		// insert before a trailing empty line if present
+		let insertAt = lines.length;
+		if (insertAt > 0 && lines[insertAt - 1] === "") insertAt = insertAt - 1;
+		return insertAt;
+	});
+}
+
+/** Adds a task after the last line of `heading`'s section; null is the part of the note above the first heading. */
+export async function createNewTaskInSection(store: Store, filePath: string, heading: TaskHeading | null, text: string) {
+	await createNewTask(store, filePath, text, (lines) => {
+		let start = 0;
+		if (heading) {
+			// the heading may have moved since the scan; fall back to the first line like it
+			start = lines[heading.lineIndex] === heading.line ? heading.lineIndex : lines.indexOf(heading.line);
+			if (start < 0) return lines.length;
+			start++;
+		}
+		const code = fencedLines(lines);
+		let end = start;
+		while (end < lines.length && (code.has(end) || !parseHeading(lines[end]))) end++;
+		while (end > start && !lines[end - 1].trim()) end--;
+		return end;
+	});
+}
+
+async function createNewTask(store: Store, filePath: string, text: string, insertIndex: (lines: string[]) => number) {
+	const file = store.app.vault.getAbstractFileByPath(filePath);
+	if (!(file instanceof TFile)) return;
 
 	try {
 		store.setSaving(true);
 		const scroller = store.ui?.scroller;
 		const prevScroll = scroller?.scrollTop ?? 0;
 
-		await store.withSquelch(async () => {
-			const content = await store.app.vault.read(file);
-			const lines = content.length ? content.split("\n") : [];
-
-			// insert before a trailing empty line if present
-			let insertAt = lines.length;
-			if (insertAt > 0 && lines[insertAt - 1] === "") insertAt = insertAt - 1;
-
-			const newLine = `- [ ] ${text}`;
-			lines.splice(insertAt, 0, newLine);
-			const out = lines.join("\n");
-			await store.app.vault.modify(file, out.endsWith("\n") ? out : out + "\n");
-			invalidateCachedFile(file.path);
+		const insertAt = await store.withSquelch(() => store.history.transact("Add task", (tx) =>
+			processFile(store, file, (lines) => {
+				// an empty note splits into one empty line; the task replaces it
+				if (lines.length === 1 && lines[0] === "") lines.length = 0;
+				const at = insertIndex(lines);
+				lines.splice(at, 0, `- [ ] ${text}`);
+				if (lines[lines.length - 1] !== "") lines.push("");
+				return at;
+			}, tx)));
 
-			// focus the newly created item after remount
-			store.pendingFocusId = `${filePath}::${insertAt}`;
-		});
+		// focus the newly created item after remount
+		store.pendingFocus = { path: filePath, line: insertAt };
 
-		await mountTable(store);
+		await patchFiles(store, [filePath]);
 
 		if (scroller) scroller.scrollTop = prevScroll;
 	} finally {
@@ -3,35 +3,68 @@ import {
 } from "obsidian";
 import { TFile } from "obsidian";
 import { TaskTableView } from "./views/TaskTableView";
-import { compileRules } from "./data/scan";
+import { compileRules, getMatchedRules, ruleError } from "./data/scan";
+import { FileIndex } from "./data/fileindex";
 import { setIcon } from "obsidian";
 import { debounce } from "./utils/debounce";
+import { defaultStatuses, TaskStatus } from "./data/statuses";
+import { setTaskSymbols } from "./utils/text";
+import { ColorRule, ColorRuleKind } from "./ui/colors";
 
 export const TASK_TABLE_VIEW_TYPE = "task-table-view";
 
-export interface TaskTableRule { name: string; re: string; }
+export type RuleType = "regex" | "glob" | "tag" | "frontmatter";
+// `pattern` is a path regex, a path glob, a tag or a `key: value` frontmatter property, by `type`
+export interface TaskTableRule { name: string; type: RuleType; pattern: string; exclude?: boolean; }
+// how files are ordered inside a group; "manual" is set by dragging file headers in the table
+export type FileSort = "alpha" | "mtime" | "ctime" | "frontmatter" | "manual";
 export interface MyPluginSettings {
-	regexRules: TaskTableRule[];
-	indexedPaths: string[];
+	rules: TaskTableRule[];
+	statuses: TaskStatus[];
+	// list tasks under the markdown heading they sit below, inside each file
+	groupByHeading: boolean;
+	// use `^id` anchors as task identity, adding them to tasks that are moved or linked
+	blockIds: boolean;
+	fileSort: FileSort;
+	// file paths per group key, for the manual file order
+	manualOrder: Record<string, string[]>;
+	// row color overrides, first match wins; other trees get a hue seeded by their root task
+	colorRules: ColorRule[];
 }
+// settings as saved by any version: older ones kept path regexes as `regexRules`,
+// and the matched notes as `indexedPaths` (they are kept in memory now, see data/fileindex.ts)
+type StoredSettings = Partial<MyPluginSettings> & {
+	regexRules?: { name?: string; re?: string }[];
+	indexedPaths?: unknown;
+};
+
 const DEFAULT_SETTINGS: MyPluginSettings = {
-	regexRules: [{ name: "Planner", re: ".*/Planner/.*\\.md$" }],
-	indexedPaths: [],
+	rules: [{ name: "Planner", type: "regex", pattern: ".*/Planner/.*\\.md$" }],
+	statuses: defaultStatuses(),
+	groupByHeading: false,
+	blockIds: false,
+	fileSort: "alpha",
+	manualOrder: {},
+	colorRules: [],
 };
 
 export default class MyPlugin extends Plugin {
 	settings: MyPluginSettings;
+	index: FileIndex;
 
 	async onload() {
 		await this.loadSettings();
+		this.index = new FileIndex(this.app, () => this.settings.rules);
+		this.index.register(this);
 
 		this.registerView(TASK_TABLE_VIEW_TYPE, (leaf) =>
 			new TaskTableView(leaf, {
 				settings: this.settings,
 				openSettings: () => this.openSettings(),
-				getIndexedFiles: () => this.getIndexedFiles(),
-				rescanIndex: () => this.rescanIndex(),
-
+				getIndexedFiles: () => this.index.files(),
+				isIndexed: (path) => this.index.has(path),
+				onIndexChange: (fn) => this.index.subscribe(fn),
+				saveSettings: () => this.saveSettings(),
 			})
 		);
 
@@ -40,38 +73,6 @@ export default class MyPlugin extends Plugin {
 		});
 
 		this.addSettingTab(new RulesSettingTab(this.app, this));
-
-		this.registerEvent(
-			this.app.workspace.on("active-leaf-change", async (leaf) => {
-				if (leaf?.view?.getViewType?.() === TASK_TABLE_VIEW_TYPE) {
-					await this.rescanIndex();
-					await this.notifySettingsChanged();
-				}
-			})
-		);
-	}
-
-	async rescanIndex(): Promise<number> {
-		const compiled = compileRules(this.settings.regexRules ?? []);
-		const all = this.app.vault.getMarkdownFiles();
-		// match via compiled regex rules
-		const matched = new Set<string>();
-		for (const f of all) {
-			const p = f.path;
-			if (compiled.some((c) => c.re.test(p))) matched.add(p);
-		}
-		this.settings.indexedPaths = Array.from(matched).sort((a, b) => a.localeCompare(b));
-		await this.saveSettings();
-		return this.settings.indexedPaths.length;
-	}
-
-	getIndexedFiles(): TFile[] {
-		const out: TFile[] = [];
-		for (const p of this.settings.indexedPaths ?? []) {
-			const af = this.app.vault.getAbstractFileByPath(p);
-			if (af instanceof TFile && af.extension === "md") out.push(af);
-		}
-		return out;
 	}
 
 	async activateView() {
@@ -99,9 +100,25 @@ export default class MyPlugin extends Plugin {
 	}
 
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		const saved: StoredSettings = (await this.loadData()) ?? {};
+		// a copy, so edits to the loaded settings never reach the defaults
+		const defaults: MyPluginSettings = JSON.parse(JSON.stringify(DEFAULT_SETTINGS));
+		// only the fields this version knows, so ones it dropped aren't saved back
+		this.settings = {
+			rules: saved.rules
+				?? saved.regexRules?.map((r) => ({ name: r.name ?? "", type: "regex", pattern: r.re ?? "" }))
+				?? defaults.rules,
+			statuses: saved.statuses ?? defaults.statuses,
+			groupByHeading: saved.groupByHeading ?? defaults.groupByHeading,
+			blockIds: saved.blockIds ?? defaults.blockIds,
+			fileSort: saved.fileSort ?? defaults.fileSort,
+			manualOrder: saved.manualOrder ?? defaults.manualOrder,
+			colorRules: saved.colorRules ?? defaults.colorRules,
+		};
+		setTaskSymbols(this.settings.statuses.map((s) => s.symbol));
 	}
 	async saveSettings() {
+		setTaskSymbols(this.settings.statuses.map((s) => s.symbol));
 		await this.saveData(this.settings);
 	}
 
@@ -116,6 +133,11 @@ export default class MyPlugin extends Plugin {
 	}
 }
 
+// tasks in a note by the metadata cache, without reading the file
+function countTasks(app: App, file: TFile): number {
+	return app.metadataCache.getFileCache(file)?.listItems?.filter((li) => li.task !== undefined).length ?? 0;
+}
+
 class RulesSettingTab extends PluginSettingTab {
 	plugin: MyPlugin;
 	constructor(app: App, plugin: MyPlugin) {
@@ -140,24 +162,76 @@ class RulesSettingTab extends PluginSettingTab {
       .tt-rules .tt-add { font-weight: 700; }
       .tt-rules .tt-trash { color: var(--text-muted); }
       .tt-rules .tt-trash:hover { color: var(--text-normal); }
+      .tt-rules .tt-rule-grid { grid-template-columns: auto 1fr auto 2fr auto auto; }
+      .tt-rules .tt-grip { cursor: grab; color: var(--text-faint); padding: 0 2px; user-select: none; }
+      .tt-rules .tt-row.tt-drop-above { box-shadow: 0 -2px 0 var(--text-accent); }
+      .tt-rules .tt-rule-info { margin: -2px 0 10px; font-size: var(--font-ui-smaller); color: var(--text-muted); }
+      .tt-rules .tt-rule-info summary { cursor: pointer; }
+      .tt-rules .tt-rule-info ul { margin: 4px 0; max-height: 14em; overflow-y: auto; }
+      .tt-rules .tt-rule-error { color: var(--text-error); }
+      .tt-rules .tt-rule-warning { color: var(--text-warning); font-size: var(--font-ui-smaller); margin: 8px 0; }
+      .tt-rules .tt-status-grid { grid-template-columns: 4em 2fr 4em auto auto auto; margin-top: 0; }
+      .tt-rules .tt-status-grid input[type="text"].tt-symbol { text-align: center; font-family: var(--font-monospace); }
+      .tt-rules .tt-color-grid { grid-template-columns: 8em 2fr 4em auto; }
       `;
 			containerEl.appendChild(style);
 		}
 
-		// Header row: Group | Regex | [+]
-		const head = containerEl.createDiv({ cls: "tt-grid tt-head" });
+		// Header row: Group | Type | Pattern | Exclude | [+]
+		const head = containerEl.createDiv({ cls: "tt-grid tt-rule-grid tt-head" });
+		head.createSpan();
 		head.createSpan({ text: "Group" });
-		head.createSpan({ text: "Regex" });
+		head.createSpan({ text: "Type" });
+		head.createSpan({ text: "Pattern" });
+		head.createSpan({ text: "Exclude" });
 		const addWrap = head.createDiv();
 		const addBtn = addWrap.createEl("button", { cls: "tt-icon-btn tt-add", attr: { "aria-label": "Add rule", title: "Add rule" } });
 		addBtn.textContent = "+";
 
 		const listEl = containerEl.createDiv();
+		const placeholders: Record<RuleType, string> = {
+			regex: ".*/Planner/.*\\.md$",
+			glob: "Projects/**/*.md",
+			tag: "#project",
+			frontmatter: "type: planner",
+		};
+
+		// one line under each rule: its error, or how many notes it matches with a preview to expand
+		let infos: HTMLDivElement[] = [];
+		const openPreviews = new Set<number>();
+		// index of the rule being dragged by its handle
+		let dragFrom: number | null = null;
 
 		const render = () => {
 			listEl.empty();
-			this.plugin.settings.regexRules.forEach((rule, idx) => {
-				const row = listEl.createDiv({ cls: "tt-grid tt-row" });
+			infos = [];
+			this.plugin.settings.rules.forEach((rule, idx) => {
+				const row = listEl.createDiv({ cls: "tt-grid tt-rule-grid tt-row" });
+
+				const grip = row.createSpan({ cls: "tt-grip", text: "⋮⋮" });
+				grip.title = "Drag to reorder; groups are shown in the order of their first rule";
+				grip.draggable = true;
+				grip.ondragstart = (e) => { dragFrom = idx; e.dataTransfer?.setData("text/plain", String(idx)); };
+				grip.ondragend = () => { dragFrom = null; };
+				row.ondragover = (e) => {
+					if (dragFrom === null || dragFrom === idx) return;
+					e.preventDefault();
+					row.addClass("tt-drop-above");
+				};
+				row.ondragleave = () => row.removeClass("tt-drop-above");
+				row.ondrop = async (e) => {
+					e.preventDefault();
+					row.removeClass("tt-drop-above");
+					if (dragFrom === null || dragFrom === idx) return;
+					const rules = this.plugin.settings.rules;
+					const [moved] = rules.splice(dragFrom, 1);
+					rules.splice(dragFrom < idx ? idx - 1 : idx, 0, moved);
+					dragFrom = null;
+					openPreviews.clear();
+					await this.plugin.saveSettings();
+					render();
+					rescanAndUpdate();
+				};
 
 				// Group (name)
 				const nameInput = row.createEl("input", { type: "text" });
@@ -169,12 +243,32 @@ class RulesSettingTab extends PluginSettingTab {
 					rescanAndUpdate();
 				};
 
-				// Regex
-				const reInput = row.createEl("input", { type: "text" });
-				reInput.placeholder = ".*/Planner/.*\\.md$";
-				reInput.value = rule.re ?? "";
-				reInput.oninput = async () => {
-					rule.re = reInput.value;
+				const typeSelect = row.createEl("select", { cls: "dropdown" });
+				for (const [value, text] of [["regex", "Regex"], ["glob", "Glob"], ["tag", "Tag"], ["frontmatter", "Property"]]) {
+					typeSelect.createEl("option", { value, text });
+				}
+				typeSelect.value = rule.type ?? "regex";
+
+				const patternInput = row.createEl("input", { type: "text" });
+				patternInput.placeholder = placeholders[rule.type ?? "regex"];
+				patternInput.value = rule.pattern ?? "";
+				patternInput.oninput = async () => {
+					rule.pattern = patternInput.value;
+					await this.plugin.saveSettings();
+					rescanAndUpdate();
+				};
+				typeSelect.onchange = async () => {
+					rule.type = typeSelect.value as RuleType;
+					patternInput.placeholder = placeholders[rule.type];
+					await this.plugin.saveSettings();
+					rescanAndUpdate();
+				};
+
+				const exclude = row.createEl("input", { type: "checkbox" });
+				exclude.title = "Take matching notes out instead of adding them; with a group name, only out of that group";
+				exclude.checked = !!rule.exclude;
+				exclude.onchange = async () => {
+					rule.exclude = exclude.checked;
 					await this.plugin.saveSettings();
 					rescanAndUpdate();
 				};
@@ -187,16 +281,68 @@ class RulesSettingTab extends PluginSettingTab {
 				});
 				setIcon(delBtn, "trash-2");
 				delBtn.onclick = async () => {
-					this.plugin.settings.regexRules.splice(idx, 1);
+					this.plugin.settings.rules.splice(idx, 1);
+					openPreviews.clear();
 					await this.plugin.saveSettings();
 					render();
 					rescanAndUpdate();
 				};
+
+				infos.push(listEl.createDiv({ cls: "tt-rule-info" }));
+			});
+			updatePreview();
+		};
+
+		const conflictsEl = containerEl.createDiv();
+		const updatePreview = () => {
+			const files = this.app.vault.getMarkdownFiles().sort((a, b) => a.path.localeCompare(b.path));
+			const rules = this.plugin.settings.rules;
+			rules.forEach((rule, idx) => {
+				const info = infos[idx];
+				if (!info) return;
+				info.empty();
+				const error = ruleError(rule);
+				if (error) { info.createSpan({ cls: "tt-rule-error", text: error }); return; }
+				const compiled = compileRules(this.app, [rule])[0];
+				if (!compiled) return;
+
+				const hits = files.filter((f) => compiled.matches(f));
+				const details = info.createEl("details");
+				details.createEl("summary", { text: `${rule.exclude ? "Removes" : "Matches"} ${hits.length} ${hits.length === 1 ? "note" : "notes"}` });
+				const fill = () => {
+					const list = details.createEl("ul");
+					for (const f of hits.slice(0, 200)) {
+						const n = countTasks(this.app, f);
+						list.createEl("li", { text: `${f.path} — ${n} ${n === 1 ? "task" : "tasks"}` });
+					}
+					if (hits.length > 200) list.createEl("li", { text: `…and ${hits.length - 200} more` });
+				};
+				details.ontoggle = () => {
+					if (details.open) openPreviews.add(idx);
+					else openPreviews.delete(idx);
+					if (details.open && !details.querySelector("ul")) fill();
+				};
+				if (openPreviews.has(idx)) details.open = true;
 			});
+
+			// a note listed in several groups shows up once per group, which is rarely what was meant
+			conflictsEl.empty();
+			const all = compileRules(this.app, rules);
+			const split: string[] = [];
+			for (const f of files) {
+				const groups = Array.from(new Set(getMatchedRules(f, all).map((r) => r.name.trim()).filter(Boolean)));
+				if (groups.length > 1) split.push(`${f.path} (${groups.join(", ")})`);
+			}
+			if (!split.length) return;
+			const warn = conflictsEl.createDiv({ cls: "tt-rule-warning" });
+			warn.createDiv({ text: `${split.length} ${split.length === 1 ? "note is" : "notes are"} listed in more than one group:` });
+			const list = warn.createEl("ul");
+			for (const line of split.slice(0, 20)) list.createEl("li", { text: line });
+			if (split.length > 20) list.createEl("li", { text: `…and ${split.length - 20} more` });
 		};
 
 		addBtn.onclick = async () => {
-			this.plugin.settings.regexRules.push({ name: "", re: "" });
+			this.plugin.settings.rules.push({ name: "", type: "regex", pattern: "" });
 			await this.plugin.saveSettings();
 			render();
 			rescanAndUpdate();
@@ -208,18 +354,195 @@ class RulesSettingTab extends PluginSettingTab {
 		countRow.createSpan({ text: "Files: " });
 		const countSpan = countRow.createSpan({ cls: "tt-count" });
 
-		const setCountFromSettings = () => {
-			const n = this.plugin.settings.indexedPaths?.length ?? 0;
-			countSpan.setText(String(n));
+		// typing in a pattern only re-evaluates once it pauses; open tables catch up when the settings close
+		const rescanAndUpdate = debounce(() => {
+			updatePreview();
+			countSpan.setText(String(this.plugin.index.rebuild(true)));
+		}, 300);
+
+		countSpan.setText(String(this.plugin.index.size));
+
+		new Setting(containerEl)
+			.setName("Group by heading")
+			.setDesc("Inside each file, list tasks under the markdown heading above them. New tasks typed under a heading go to the end of its section.")
+			.addToggle((t) => t
+				.setValue(this.plugin.settings.groupByHeading)
+				.onChange(async (v) => { this.plugin.settings.groupByHeading = v; await this.plugin.saveSettings(); }));
+
+		new Setting(containerEl)
+			.setName("File order")
+			.setDesc("How notes are ordered within each group. Groups follow the order of the rules above; drag a rule by its handle to move its group. For a manual order, drag file headers in the table.")
+			.addDropdown((d) => d
+				.addOptions({
+					alpha: "Alphabetical",
+					mtime: "Recently modified first",
+					ctime: "Recently created first",
+					frontmatter: "Frontmatter \"order\" property",
+					manual: "Manual",
+				})
+				.setValue(this.plugin.settings.fileSort)
+				.onChange(async (v) => { this.plugin.settings.fileSort = v as FileSort; await this.plugin.saveSettings(); }));
+
+		new Setting(containerEl)
+			.setName("Block ids")
+			.setDesc("Track tasks by their ^block-id so collapsed and focused rows follow them when lines shift. Tasks get an id when they are moved or when their link is copied.")
+			.addToggle((t) => t
+				.setValue(this.plugin.settings.blockIds)
+				.onChange(async (v) => { this.plugin.settings.blockIds = v; await this.plugin.saveSettings(); }));
+
+		this.displayStatuses(containerEl);
+		this.displayColorRules(containerEl);
+	}
+
+	// Status registry: Symbol | Name | Next | Done | Show | [+]
+	private displayStatuses(containerEl: HTMLElement) {
+		containerEl.createEl("h3", { text: "Task statuses" });
+		containerEl.createEl("p", {
+			cls: "setting-item-description",
+			text: "The symbol between the brackets of a task, e.g. [/]. Clicking a task's checkbox switches it to the Next symbol. Done statuses match the \"done\" query; unticked Show hides those tasks and their subtasks.",
+		});
+
+		const head = containerEl.createDiv({ cls: "tt-grid tt-status-grid tt-head" });
+		head.createSpan({ text: "Symbol" });
+		head.createSpan({ text: "Name" });
+		head.createSpan({ text: "Next" });
+		head.createSpan({ text: "Done" });
+		head.createSpan({ text: "Show" });
+		const addBtn = head.createDiv().createEl("button", { cls: "tt-icon-btn tt-add", attr: { "aria-label": "Add status", title: "Add status" } });
+		addBtn.textContent = "+";
+
+		const listEl = containerEl.createDiv();
+		const statuses = this.plugin.settings.statuses;
+		const save = () => this.plugin.saveSettings();
+		// a symbol is exactly one character; anything else is kept out of the note
+		const symbolInput = (parent: HTMLElement, value: string, onChange: (v: string) => void) => {
+			const input = parent.createEl("input", { type: "text", cls: "tt-symbol" });
+			input.maxLength = 1;
+			input.value = value === " " ? "␣" : value;
+			input.title = "One character; type a space for an open task";
+			input.oninput = async () => {
+				const v = input.value === "␣" ? " " : input.value;
+				if (v.length !== 1) return;
+				onChange(v);
+				await save();
+			};
+			return input;
 		};
 
-		const rescanAndUpdate = debounce(async () => {
-			await this.plugin.rescanIndex();
-			setCountFromSettings();
-		}, 100);
+		const render = () => {
+			listEl.empty();
+			statuses.forEach((status, idx) => {
+				const row = listEl.createDiv({ cls: "tt-grid tt-status-grid tt-row" });
+				symbolInput(row, status.symbol, (v) => { status.symbol = v; });
+
+				const nameInput = row.createEl("input", { type: "text" });
+				nameInput.value = status.name;
+				nameInput.oninput = async () => { status.name = nameInput.value; await save(); };
+
+				symbolInput(row, status.next, (v) => { status.next = v; });
 
-		void this.plugin.rescanIndex().then(setCountFromSettings);
+				const done = row.createEl("input", { type: "checkbox" });
+				done.checked = status.done;
+				done.onchange = async () => { status.done = done.checked; await save(); };
 
+				const show = row.createEl("input", { type: "checkbox" });
+				show.checked = status.show;
+				show.onchange = async () => { status.show = show.checked; await save(); };
+
+				const delBtn = row.createDiv().createEl("button", {
+					cls: "tt-icon-btn tt-trash",
+					attr: { "aria-label": "Delete status", title: "Delete status" },
+				});
+				setIcon(delBtn, "trash-2");
+				delBtn.onclick = async () => {
+					statuses.splice(idx, 1);
+					await save();
+					render();
+				};
+			});
+		};
+
+		addBtn.onclick = async () => {
+			const used = new Set(statuses.map((s) => s.symbol));
+			const symbol = "abcdefghijklmnopqrstuvwyz".split("").find((c) => !used.has(c)) ?? "a";
+			statuses.push({ symbol, name: "", done: false, next: " ", show: true });
+			await save();
+			render();
+		};
+
+		render();
+	}
+
+	// Color rules: By | Value | Color | [+]
+	private displayColorRules(containerEl: HTMLElement) {
+		containerEl.createEl("h3", { text: "Row colors" });
+		containerEl.createEl("p", {
+			cls: "setting-item-description",
+			text: "Each task tree gets a color from its top-level task, the same every time the table opens. A rule below gives matching rows its color instead; the first matching rule wins. Tag and priority rules look at the task itself, so a subtask can differ from its parent.",
+		});
+
+		const head = containerEl.createDiv({ cls: "tt-grid tt-color-grid tt-head" });
+		head.createSpan({ text: "By" });
+		head.createSpan({ text: "Value" });
+		head.createSpan({ text: "Color" });
+		const addBtn = head.createDiv().createEl("button", { cls: "tt-icon-btn tt-add", attr: { "aria-label": "Add color rule", title: "Add color rule" } });
+		addBtn.textContent = "+";
+
+		const listEl = containerEl.createDiv();
+		const rules = this.plugin.settings.colorRules;
+		const save = () => this.plugin.saveSettings();
+		const placeholders: Record<ColorRuleKind, string> = {
+			group: "Planner",
+			file: "Projects/Garden.md or Projects",
+			tag: "#urgent",
+			priority: "high",
+		};
+
+		const render = () => {
+			listEl.empty();
+			rules.forEach((rule, idx) => {
+				const row = listEl.createDiv({ cls: "tt-grid tt-color-grid tt-row" });
+
+				const bySelect = row.createEl("select", { cls: "dropdown" });
+				for (const [value, text] of [["group", "Group"], ["file", "File or folder"], ["tag", "Tag"], ["priority", "Priority"]]) {
+					bySelect.createEl("option", { value, text });
+				}
+				bySelect.value = rule.by;
+
+				const valueInput = row.createEl("input", { type: "text" });
+				valueInput.placeholder = placeholders[rule.by];
+				valueInput.value = rule.value;
+				valueInput.oninput = async () => { rule.value = valueInput.value; await save(); };
+				bySelect.onchange = async () => {
+					rule.by = bySelect.value as ColorRuleKind;
+					valueInput.placeholder = placeholders[rule.by];
+					await save();
+				};
+
+				const color = row.createEl("input", { type: "color" });
+				color.value = rule.color;
+				color.onchange = async () => { rule.color = color.value; await save(); };
+
+				const delBtn = row.createDiv().createEl("button", {
+					cls: "tt-icon-btn tt-trash",
+					attr: { "aria-label": "Delete color rule", title: "Delete color rule" },
+				});
+				setIcon(delBtn, "trash-2");
+				delBtn.onclick = async () => {
+					rules.splice(idx, 1);
+					await save();
+					render();
+				};
+			});
+		};
+
+		addBtn.onclick = async () => {
+			rules.push({ by: "tag", value: "", color: "#d04040" });
+			await save();
+			render();
+		};
+
+		render();
 	}
 
 	hide(): void {
@@ -0,0 +1,129 @@
+import type { Store } from "./store";
+import { TaskEntry } from "../types";
+import { taskTextFromLine, withoutBlockId } from "../utils/text";
+
+/** Collapse state as saved with the view; tasks are listed per file by their stable key. */
+export type SavedCollapse = {
+	tasks: Record<string, string[]>;
+	notes: Record<string, string[]>;
+	groups: string[];
+	files: string[];
+	sections: string[];
+};
+
+/**
+ * Key of each task that survives lines being added or removed around it: its
+ * block id if it has one, else the texts of the task and its ancestors,
+ * numbered when the same chain repeats.
+ */
+export function stableTaskKeys(entries: TaskEntry[]): Map<string, string> {
+	const chains = new Map<string, string>();
+	const seen = new Map<string, number>();
+	const keys = new Map<string, string>();
+	for (const e of entries) {
+		const own = taskTextFromLine(withoutBlockId(e.originalLine)).trim();
+		const parent = e.parentId ? chains.get(e.parentId) : undefined;
+		const chain = parent === undefined ? own : `${parent}\n${own}`;
+		const n = (seen.get(chain) ?? 0) + 1;
+		seen.set(chain, n);
+		chains.set(e.id, chain);
+		keys.set(e.id, e.blockId ? `^${e.blockId}` : `${chain}#${n}`);
+	}
+	return keys;
+}
+
+/**
+ * Moves collapsed task ids into `store.savedCollapse` as stable keys, so they can
+ * be matched up again after a rescan renumbers the ids. Only `paths` when given.
+ */
+export function stashCollapsed(store: Store, paths?: string[]) {
+	for (const [path, entries] of store.tasksByFile) {
+		if (paths && !paths.includes(path)) continue;
+		const keys = stableTaskKeys(entries);
+		for (const [set, saved] of [[store.collapsed, store.savedCollapse.tasks], [store.collapsedNotes, store.savedCollapse.notes]] as const) {
+			for (const e of entries) {
+				if (!set.has(e.id)) continue;
+				set.delete(e.id);
+				if (!saved.has(path)) saved.set(path, new Set());
+				saved.get(path)!.add(keys.get(e.id)!);
+			}
+		}
+	}
+}
+
+/** Turns stashed keys back into ids for the scanned files; keys of tasks that are gone are dropped. */
+export function resolveCollapsed(store: Store) {
+	for (const [path, entries] of store.tasksByFile) {
+		const keys = stableTaskKeys(entries);
+		for (const [set, saved] of [[store.collapsed, store.savedCollapse.tasks], [store.collapsedNotes, store.savedCollapse.notes]] as const) {
+			const wanted = saved.get(path);
+			if (!wanted) continue;
+			for (const e of entries) if (wanted.has(keys.get(e.id)!)) set.add(e.id);
+			saved.delete(path);
+		}
+	}
+}
+
+export function toSavedCollapse(store: Store): SavedCollapse {
+	const tasks = new Map<string, Set<string>>();
+	const notes = new Map<string, Set<string>>();
+	for (const [path, keys] of store.savedCollapse.tasks) tasks.set(path, new Set(keys));
+	for (const [path, keys] of store.savedCollapse.notes) notes.set(path, new Set(keys));
+
+	for (const [path, entries] of store.tasksByFile) {
+		const keys = stableTaskKeys(entries);
+		for (const e of entries) {
+			for (const [set, out] of [[store.collapsed, tasks], [store.collapsedNotes, notes]] as const) {
+				if (!set.has(e.id)) continue;
+				if (!out.has(path)) out.set(path, new Set());
+				out.get(path)!.add(keys.get(e.id)!);
+			}
+		}
+	}
+
+	const record = (m: Map<string, Set<string>>) => {
+		const out: Record<string, string[]> = {};
+		for (const [path, keys] of m) if (keys.size) out[path] = Array.from(keys);
+		return out;
+	};
+	return {
+		tasks: record(tasks),
+		notes: record(notes),
+		groups: Array.from(store.collapsedGroups),
+		files: Array.from(store.collapsedFiles),
+		sections: Array.from(store.collapsedSections),
+	};
+}
+
+/** Replaces the store's collapse state; task keys are resolved on the next mount. */
+export function loadSavedCollapse(store: Store, saved: Partial<SavedCollapse>) {
+	const toMap = (r: Record<string, string[]> | undefined) =>
+		new Map(Object.keys(r ?? {}).map((path) => [path, new Set(r![path])] as [string, Set<string>]));
+	store.collapsed.clear();
+	store.collapsedNotes.clear();
+	store.savedCollapse = { tasks: toMap(saved.tasks), notes: toMap(saved.notes) };
+	store.collapsedGroups = new Set(saved.groups ?? []);
+	store.collapsedFiles = new Set(saved.files ?? []);
+	store.collapsedSections = new Set(saved.sections ?? []);
+}
+
+/** Carries a file's collapse state over to its new path. */
+export function renameCollapsed(store: Store, oldPath: string, newPath: string) {
+	stashCollapsed(store, [oldPath]);
+	for (const saved of [store.savedCollapse.tasks, store.savedCollapse.notes]) {
+		const keys = saved.get(oldPath);
+		if (!keys) continue;
+		saved.delete(oldPath);
+		saved.set(newPath, keys);
+	}
+	// file and section keys are `group::path` and `group::path::§heading`
+	for (const set of [store.collapsedFiles, store.collapsedSections]) {
+		for (const key of Array.from(set)) {
+			const at = key.indexOf(`::${oldPath}`);
+			const rest = at < 0 ? "" : key.slice(at + 2 + oldPath.length);
+			if (at < 0 || (rest !== "" && !rest.startsWith("::"))) continue;
+			set.delete(key);
+			set.add(`${key.slice(0, at)}::${newPath}${rest}`);
+		}
+	}
+}
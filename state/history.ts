@@ -0,0 +1,49 @@
+export type FileChange = { path: string; before: string; after: string };
+export type HistoryEntry = { label: string; changes: FileChange[] };
+// where a write's change goes: a transaction's entry, or the history as an undo step of its own
+export type Recorder = { record(change: FileChange): void };
+
+/**
+ * Undo/redo stacks of whole-file snapshots. Writes recorded with the recorder
+ * `transact` hands out are grouped into one entry, so a cross-file move undoes
+ * in one step. Each call has its own entry, so transactions that overlap stay apart.
+ */
+export class History {
+	readonly limit = 100;
+	private undoStack: HistoryEntry[] = [];
+	private redoStack: HistoryEntry[] = [];
+
+	async transact<T>(label: string, fn: (tx: Recorder) => Promise<T>): Promise<T> {
+		const entry: HistoryEntry = { label, changes: [] };
+		const tx: Recorder = { record: (change) => { if (change.before !== change.after) entry.changes.push(change); } };
+		try {
+			return await fn(tx);
+		} finally {
+			if (entry.changes.length) this.push(entry);
+		}
+	}
+
+	record(change: FileChange) {
+		if (change.before === change.after) return;
+		this.push({ label: "Edit", changes: [change] });
+	}
+
+	private push(entry: HistoryEntry) {
+		this.undoStack.push(entry);
+		if (this.undoStack.length > this.limit) this.undoStack.shift();
+		this.redoStack = [];
+	}
+
+	peekUndo(): HistoryEntry | undefined { return this.undoStack[this.undoStack.length - 1]; }
+	peekRedo(): HistoryEntry | undefined { return this.redoStack[this.redoStack.length - 1]; }
+
+	/** Moves the newest entry to the redo stack once it has been reverted. */
+	markUndone() {
+		const e = this.undoStack.pop();
+		if (e) this.redoStack.push(e);
+	}
+	markRedone() {
+		const e = this.redoStack.pop();
+		if (e) this.undoStack.push(e);
+	}
+}
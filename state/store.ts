@@ -1,10 +1,26 @@
-import { AppLike, UIRefs, RowRef, ScanResult, TaskEntry } from "../types";
+import { AppLike, DisplayMode, UIRefs, LayoutRow, RowRef, RowWindow, ScanResult, TagFilter, TaskEntry } from "../types";
 import { MyPluginSettings } from "../main";
 import { updateStatusIcon } from "../ui/render"
+import { emptyTagFilter } from "../data/filter";
+import { defaultDisplay } from "../data/display";
+import { parseQuery, Query } from "../data/query";
+import { isDoneStatus } from "../data/statuses";
+import { History } from "./history";
+import { stableTaskKeys } from "./collapse";
+import { seededHue } from "../ui/colors";
 import type { TFile } from "obsidian";
+import type { IndexListener } from "../data/fileindex";
 
 type Providers = {
 	getIndexedFiles: () => TFile[];
+	// whether a note is in the index, without listing it
+	isIndexed: (path: string) => boolean;
+	// notes that entered or left the index; returns the unsubscribe function
+	onIndexChange: (fn: IndexListener) => () => void;
+	// ask the workspace to save this view's state (filters etc.)
+	persistState: () => void;
+	// plugin-wide settings changed from the table (manual file order)
+	saveSettings: () => Promise<void>;
 };
 
 export class Store {
@@ -19,26 +35,58 @@ export class Store {
 	squelchScanDepth = 0;
 	silentStylePass = false;
 
+	// task rows built so far, in no particular order
 	rowRefs: RowRef[] = [];
 	tasksByFile = new Map<string, TaskEntry[]>();
 	childrenById = new Map<string, string[]>();
-	rowById = new Map<string, RowRef>();
+	// every task row in the layout, built or not
+	rowById = new Map<string, LayoutRow>();
 	collapsed = new Set<string>();
 	collapsedGroups = new Set<string>();
 	collapsedFiles = new Set<string>();
-	groupHeaderRow = new Map<string, HTMLTableRowElement>();
-	fileHeaderRow = new Map<string, HTMLTableRowElement>();
-	newRowByFile = new Map<string, HTMLTableRowElement>();
+	collapsedSections = new Set<string>();
+	// tasks whose notes are folded away
+	collapsedNotes = new Set<string>();
+	// collapsed tasks by file path and stable key, waiting to be matched to ids (see state/collapse.ts)
+	savedCollapse = { tasks: new Map<string, Set<string>>(), notes: new Map<string, Set<string>>() };
+	groupHeaderRow = new Map<string, LayoutRow>();
+	fileHeaderRow = new Map<string, LayoutRow>();
+	sectionHeaderRow = new Map<string, LayoutRow>();
+	// "New" placeholder rows, one per heading section (per file when sections are off)
+	newRowBySection = new Map<string, LayoutRow>();
+
+	// virtualized rendering (see ui/virtual.ts)
+	layoutRows: LayoutRow[] = [];
+	// the rows that aren't hidden, until collapse or the filters change
+	shownRows: LayoutRow[] | null = null;
+	rowHeights = new WeakMap<LayoutRow, number>();
+	onFirstAttach = new WeakMap<HTMLTableRowElement, () => void>();
+	rowWindow: RowWindow | null = null;
+
+	// multi-select (see ui/selection.ts); the anchor is where a shift-click range starts
+	selected = new Set<RowRef>();
+	selectionAnchor: RowRef | null = null;
 
 	draggingId: string | null = null;
+	// file header being dragged to a new place in the manual file order
+	draggingFile: { groupKey: string; filePath: string } | null = null;
 	hoverTarget: { id: string; mode: "on" | "before" | "after" } | null = null;
 
-	hueByRootToken = new Map<string, number>();
-	readonly GOLDEN_ANGLE = 137.508;
-	readonly huePhase = Math.random() * 360;
-	SAT = 78; L_BASE = 42; L_STEP = 20; L_MAX = 90;
+	// hue of each task tree by its root's id (see ui/colors.ts), and the identity it was seeded from:
+	// by root id and by the root's stable key, so a root is recognized after an edit or a shift
+	hueByRoot = new Map<string, number>();
+	rootSeeds = new Map<string, string>();
+	seedsByKey = new Map<string, string>();
+
+	// where the caret goes after the next patch: a task by its file and line
+	pendingFocus: { path: string; line: number } | null = null;
 
-	pendingFocusId: string | null = null;
+	history = new History();
+
+	tagFilter: TagFilter = emptyTagFilter();
+	display: DisplayMode = defaultDisplay();
+	querySource = "";
+	query: Query = parseQuery("", (s) => this.isDone(s));
 
 	providers: Providers;
 
@@ -53,6 +101,16 @@ export class Store {
 		this.savingDepth = Math.max(0, this.savingDepth + (on ? 1 : -1));
 		updateStatusIcon(this);
 	}
+	setQuery(source: string) {
+		this.querySource = source;
+		this.query = parseQuery(source, (s) => this.isDone(s));
+	}
+	isDone(status: string) {
+		return isDoneStatus(this.settings.statuses, status);
+	}
+	persistState() {
+		this.providers.persistState();
+	}
 	markDirty() {
 		this.dirty = true;
 		this.editsVersion++;
@@ -74,18 +132,36 @@ export class Store {
 		this.tasksByFile = result.tasksByFile;
 		this.childrenById = result.childrenById;
 
-		this.hueByRootToken.clear();
-
-		const tokens = new Set<string>();
-		for (const tasks of result.tasksByFile.values()) {
-			for (const t of tasks) tokens.add(t.rootToken);
+		// seeded by the note and the root's block id, else by what the root was first seen as,
+		// so a tree keeps its color when its text is edited or lines move around it. A root is
+		// matched by its stable key first; its line only when no other root took that seed.
+		const rootSeeds = new Map<string, string>();
+		const seedsByKey = new Map<string, string>();
+		const claimed = new Set<string>();
+		const unmatched: { t: TaskEntry; key: string }[] = [];
+		const assign = (t: TaskEntry, key: string, seed: string) => {
+			rootSeeds.set(t.id, seed);
+			seedsByKey.set(key, seed);
+			claimed.add(seed);
+			this.hueByRoot.set(t.id, seededHue(seed));
+		};
+		this.hueByRoot.clear();
+		for (const [path, tasks] of result.tasksByFile) {
+			const keys = stableTaskKeys(tasks);
+			for (const t of tasks) {
+				if (t.id !== t.rootKey) continue;
+				const key = `${path}\n${keys.get(t.id)!}`;
+				const seed = t.blockId ? `${path}\n^${t.blockId}` : this.seedsByKey.get(key);
+				if (seed !== undefined) assign(t, key, seed);
+				else unmatched.push({ t, key });
+			}
 		}
-
-		const ordered = Array.from(tokens).sort((a, b) => a.localeCompare(b));
-		for (let i = 0; i < ordered.length; i++) {
-			const hue = (this.huePhase + i * this.GOLDEN_ANGLE) % 360;
-			this.hueByRootToken.set(ordered[i], hue);
+		for (const { t, key } of unmatched) {
+			const byLine = this.rootSeeds.get(t.id);
+			assign(t, key, byLine !== undefined && !claimed.has(byLine) ? byLine : key);
 		}
+		this.rootSeeds = rootSeeds;
+		this.seedsByKey = seedsByKey;
 	}
 
 	resetTableMaps() {
@@ -93,6 +169,11 @@ export class Store {
 		this.rowById.clear();
 		this.groupHeaderRow.clear();
 		this.fileHeaderRow.clear();
-		this.newRowByFile.clear();
+		this.sectionHeaderRow.clear();
+		this.newRowBySection.clear();
+		this.layoutRows = [];
+		this.shownRows = null;
+		this.selected.clear();
+		this.selectionAnchor = null;
 	}
 }
@@ -1,14 +1,45 @@
 import { TFile, Component, App } from "obsidian";
 
+export type Priority = "highest" | "high" | "medium" | "low" | "lowest";
+export type MetaField = "due" | "scheduled" | "start" | "done" | "priority";
+
+export type TaskMeta = {
+	due?: string;
+	scheduled?: string;
+	start?: string;
+	done?: string;
+	priority?: Priority;
+	tags: string[];
+};
+
+// the markdown heading a task sits under; `key` tells apart headings with the same text
+export type TaskHeading = { text: string; level: number; lineIndex: number; line: string; key: string };
+
 export type TaskEntry = {
 	file: TFile;
 	lineIndex: number;
 	originalLine: string;
+	// lines below the bullet that continue the task's text
+	continuation: string[];
 	depth: number;
 	rootKey: string;
-	rootToken: string;
 	id: string;
 	parentId?: string;
+	// checkbox symbol, see data/statuses.ts
+	status: string;
+	meta: TaskMeta;
+	// non-task lines indented under the task (notes, plain bullets, code), as written
+	notes: string[];
+	heading?: TaskHeading;
+	// `^id` anchor at the end of the task's text, if any
+	blockId?: string;
+};
+
+export type MetaCells = {
+	due: HTMLInputElement;
+	scheduled: HTMLInputElement;
+	priority: HTMLSelectElement;
+	tags: HTMLDivElement;
 };
 
 export type RowRef = {
@@ -21,27 +52,70 @@ export type RowRef = {
 	tr: HTMLTableRowElement;
 	numEl: HTMLSpanElement;
 	checkbox: HTMLInputElement;
+	status: string;
 	textCell: HTMLDivElement;
 	previewCell: HTMLDivElement;
 	mdComp: Component;
 	originalLine: string;
-	rootToken: string;
+	continuation: string[];
+	// id of the top-level task of the row's tree
+	rootKey: string;
 	groupKey: string;
+	// heading section the row is listed under (the file key when sections are off)
+	sectionKey: string;
 	renderTimer?: number;
 	leftWrap: HTMLDivElement;
+	metaCells: MetaCells;
+	notes: string[];
+	blockId?: string;
+};
+
+// where a header or placeholder row sits; it is hidden while any of these is collapsed
+export type RowScope = { groupKey: string; fileKey?: string; sectionKey?: string };
+
+// one row of the table in layout order. Only the scope (and the task, for task rows)
+// is kept up front; `build` makes the <tr> when the row first enters the window (see ui/virtual.ts)
+export type LayoutRow = {
+	scope?: RowScope;
+	// under a collapsed group, file, section or task
+	hidden: boolean;
+	build: () => HTMLTableRowElement;
+	tr?: HTMLTableRowElement;
+	entry?: TaskEntry;
+	hasChildren?: boolean;
+	// set once a task row is built
+	ref?: RowRef;
+};
+
+export type RowWindow = {
+	top: HTMLTableRowElement;
+	bottom: HTMLTableRowElement;
+	attached: LayoutRow[];
+	frame: number;
 };
 
 export type FileBucket = { filePath: string; fileName: string; items: TaskEntry[] };
 export type GroupBucket = { key: string; name: string; files: FileBucket[] };
 
-export type CompiledRule = { name: string; re: RegExp };
+export type TagFilter = { include: string[]; exclude: string[]; mode: "and" | "or" };
+
+// status bar toggles; `completedDays` > 0 hides only tasks completed longer ago than that
+export type DisplayMode = { hideCompleted: boolean; completedDays: number; hideEmpty: boolean; openSubtrees: boolean };
+
+export type CompiledRule = { name: string; exclude: boolean; matches: (file: TFile) => boolean };
 
 export type UIRefs = {
 	container: HTMLElement;
 	statusBar: HTMLDivElement;
+	displayBar: HTMLDivElement;
+	filterBar: HTMLDivElement;
+	selectionBar: HTMLDivElement;
+	queryInput: HTMLTextAreaElement;
+	queryErrors: HTMLDivElement;
 	statusIcon: HTMLSpanElement;
 	scroller: HTMLDivElement;
 	table: HTMLTableElement;
+	thead: HTMLTableSectionElement;
 	tbody: HTMLTableSectionElement;
 };
 
@@ -1,24 +1,56 @@
-import { App, TFile } from "obsidian";
+import { App, TAbstractFile, TFile } from "obsidian";
 import type { Store } from "../state/store";
 import { debounce } from "../utils/debounce";
 import { invalidateCachedFile } from "../data/scan";
 
-
-export function wireAutoscan(app: App, store: Store, onTrigger: () => void|Promise<void>) {
+/**
+ * Collects changed indexed paths and hands them over in one debounced batch.
+ * `structural` is set when notes entered or left the index (created, renamed,
+ * deleted or re-tagged), since rows cannot be patched in place when the set of files changes.
+ */
+export function wireAutoscan(app: App, store: Store, onTrigger: (paths: string[], structural: boolean) => void|Promise<void>) {
 	const vault = app.vault;
-	const run = debounce(async () => { if (!store) return; await onTrigger(); }, 300);
-	const handler = async (af: any) => {
-		if (store.squelchScanDepth > 0) return;
-		if (!(af instanceof TFile) || af.extension !== "md") return;
-		const isIndexed = store.providers.getIndexedFiles().some(f => f.path === af.path);
-		if (!isIndexed) return;
-		invalidateCachedFile(af.path);
+	const pending = new Set<string>();
+	let structural = false;
+	const run = debounce(async () => {
+		if (!store) return;
+		const paths = Array.from(pending);
+		const wasStructural = structural;
+		pending.clear();
+		structural = false;
+		await onTrigger(paths, wasStructural);
+	}, 300);
+	// the table's own writes by time; the metadata update that follows shortly is not a change to show,
+	// but the note's parse may have been taken from the cache before it caught up
+	const ownWrites = new Map<string, number>();
+	const onModify = (af: TAbstractFile) => {
+		if (store.squelchScanDepth > 0 && af instanceof TFile) ownWrites.set(af.path, Date.now());
+	};
+	// rows are parsed from the metadata cache, so wait until it has caught up with the edit
+	const onChanged = (file: TFile) => {
+		const written = ownWrites.get(file.path);
+		ownWrites.delete(file.path);
+		if (file.extension !== "md") return;
+		if (!store.providers.isIndexed(file.path)) return;
+		invalidateCachedFile(file.path);
+		if (written !== undefined && Date.now() - written < 2000) return;
 
+		pending.add(file.path);
+		run();
+	};
+	vault.on("modify", onModify);
+	const changedRef = app.metadataCache.on("changed", onChanged);
+	const unsubscribe = store.providers.onIndexChange((paths) => {
+		for (const p of paths) {
+			invalidateCachedFile(p);
+			pending.add(p);
+		}
+		structural = true;
 		run();
+	});
+	return () => {
+		vault.off("modify", onModify);
+		app.metadataCache.offref(changedRef);
+		unsubscribe();
 	};
-	vault.on("modify", handler);
-	vault.on("create", handler);
-	vault.on("rename", handler);
-	vault.on("delete", handler);
-	return () => { vault.off("modify", handler); vault.off("create", handler); vault.off("rename", handler); vault.off("delete", handler); };
 }
@@ -0,0 +1,68 @@
+import type { Store } from "../state/store";
+import type { Priority, RowRef } from "../types";
+import { parseMeta } from "../utils/meta";
+import { hsl } from "../utils/text";
+
+export type ColorRuleKind = "group" | "file" | "tag" | "priority";
+// `value` is a group name, a file or folder path, a #tag or a priority name, by `by`; `color` is #rrggbb
+export type ColorRule = { by: ColorRuleKind; value: string; color: string };
+
+const SAT = 78;
+// depth 1 is strongest; deeper levels fade toward the background, which is dark or light by theme
+const RAMPS = {
+	light: { base: 42, step: 20, limit: 90 },
+	dark: { base: 70, step: -12, limit: 34 },
+};
+
+/** A hue from 0 to 360 that only depends on `identity` (FNV-1a). */
+export function seededHue(identity: string): number {
+	let h = 0x811c9dc5;
+	for (let i = 0; i < identity.length; i++) {
+		h ^= identity.charCodeAt(i);
+		h = Math.imul(h, 0x01000193);
+	}
+	return (h >>> 0) % 360;
+}
+
+/** Hue and saturation of a #rrggbb color, or null when it isn't one. */
+export function hexHueSat(hex: string): { h: number; s: number } | null {
+	const m = hex.trim().match(/^#?([0-9a-f]{6})$/i);
+	if (!m) return null;
+	const n = parseInt(m[1], 16);
+	const [r, g, b] = [(n >> 16) & 255, (n >> 8) & 255, n & 255].map((c) => c / 255);
+	const max = Math.max(r, g, b), min = Math.min(r, g, b), d = max - min;
+	if (!d) return { h: 0, s: 0 };
+	const l = (max + min) / 2;
+	const s = d / (1 - Math.abs(2 * l - 1));
+	const h = max === r ? ((g - b) / d) % 6 : max === g ? (b - r) / d + 2 : (r - g) / d + 4;
+	return { h: (h * 60 + 360) % 360, s: s * 100 };
+}
+
+const bareTag = (tag: string) => tag.trim().replace(/^#/, "").toLowerCase();
+
+// first rule in settings order that applies to the row; tag and priority rules look at the row's own task
+function matchingRule(rules: ColorRule[], row: RowRef): ColorRule | undefined {
+	let meta: { tags: string[]; priority?: Priority } | undefined;
+	const rowMeta = () => meta ?? (meta = parseMeta(row.originalLine));
+	return rules.find((rule) => {
+		const value = rule.value.trim();
+		if (!value) return false;
+		switch (rule.by) {
+			case "group": return row.groupKey === value;
+			case "file": return row.filePath === value || row.filePath.startsWith(`${value.replace(/\/+$/, "")}/`);
+			case "tag": return rowMeta().tags.some((t) => bareTag(t) === bareTag(value));
+			case "priority": return rowMeta().priority === value.toLowerCase();
+		}
+	});
+}
+
+/** The color of a row's number: its tree's hue, or a matching color rule's, lightened by depth for the current theme. */
+export function rowColor(store: Store, row: RowRef): string {
+	const override = matchingRule(store.settings.colorRules ?? [], row);
+	const custom = override ? hexHueSat(override.color) : null;
+	const hue = custom?.h ?? store.hueByRoot.get(row.rootKey) ?? seededHue(row.rootKey);
+	const ramp = document.body.classList.contains("theme-dark") ? RAMPS.dark : RAMPS.light;
+	const raw = ramp.base + (row.depth - 1) * ramp.step;
+	const light = ramp.step > 0 ? Math.min(ramp.limit, raw) : Math.max(ramp.limit, raw);
+	return hsl(hue, custom?.s ?? SAT, light);
+}
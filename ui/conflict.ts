@@ -0,0 +1,67 @@
+import { App, Modal } from "obsidian";
+import { mergeTaskLine } from "../utils/text";
+
+export type ConflictChoice = "mine" | "theirs" | "merge";
+
+export type Conflict = {
+	path: string;
+	// the line as the table rendered it
+	base: string;
+	// what the table wants to write
+	mine: string;
+	// what the note holds now; null when the task can't be found any more
+	theirs: string | null;
+};
+
+/** Asks how to settle an edit whose line changed in the note meanwhile. Dismissing keeps the note as is. */
+export function askConflict(app: App, conflict: Conflict): Promise<ConflictChoice> {
+	return new Promise((resolve) => new ConflictModal(app, conflict, resolve).open());
+}
+
+class ConflictModal extends Modal {
+	private choice: ConflictChoice = "theirs";
+
+	constructor(app: App, private conflict: Conflict, private done: (c: ConflictChoice) => void) {
+		super(app);
+	}
+
+	onOpen() {
+		const { contentEl, conflict } = this;
+		this.titleEl.setText("Task changed in the note");
+		contentEl.createEl("p", {
+			text: conflict.theirs === null
+				? `This task was removed or rewritten in ${conflict.path} after the table showed it.`
+				: `This task was changed in ${conflict.path} after the table showed it.`,
+		});
+
+		const line = (label: string, text: string) => {
+			const wrap = contentEl.createDiv({ cls: "tt-conflict-line" });
+			wrap.createDiv({ cls: "tt-conflict-label", text: label });
+			wrap.createEl("code", { text: text.trim() });
+		};
+		line("Yours", conflict.mine);
+		if (conflict.theirs !== null) {
+			line("In the note", conflict.theirs);
+			line("Merged", mergeTaskLine(conflict.base, conflict.mine, conflict.theirs));
+		}
+
+		const buttons = contentEl.createDiv({ cls: "modal-button-container" });
+		const button = (text: string, choice: ConflictChoice, cta = false) => {
+			const btn = buttons.createEl("button", { text, cls: cta ? "mod-cta" : "" });
+			btn.onclick = () => { this.choice = choice; this.close(); };
+		};
+		if (conflict.theirs === null) {
+			button("Add mine back", "mine", true);
+			button("Discard mine", "theirs");
+		} else {
+			button("Merge", "merge", true);
+			button("Keep mine", "mine");
+			button("Keep theirs", "theirs");
+		}
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		this.done(this.choice);
+	}
+}
@@ -0,0 +1,85 @@
+import type { Store } from "../state/store";
+import { collectTags, isTagFilterActive } from "../data/filter";
+
+/** Chip strip in the status bar: click cycles a tag through include → exclude → off. */
+export function renderTagFilterBar(store: Store, onChange: () => void | Promise<void>) {
+	const bar = store.ui.filterBar;
+	bar.empty();
+
+	const f = store.tagFilter;
+	const tags = Array.from(new Set([...collectTags(store.tasksByFile), ...f.include, ...f.exclude]))
+		.sort((a, b) => a.localeCompare(b));
+	if (!tags.length) return;
+
+	const apply = async () => {
+		store.persistState();
+		await onChange();
+	};
+
+	const modeBtn = bar.createEl("button", { cls: "tt-chip tt-chip-mode", text: f.mode.toUpperCase() });
+	modeBtn.title = f.mode === "and" ? "Rows must have every included tag" : "Rows need any included tag";
+	modeBtn.onclick = async () => {
+		f.mode = f.mode === "and" ? "or" : "and";
+		await apply();
+	};
+
+	for (const tag of tags) {
+		const state = f.include.includes(tag) ? "include" : f.exclude.includes(tag) ? "exclude" : "off";
+		const chip = bar.createEl("button", { cls: `tt-chip tt-chip-${state}`, text: tag });
+		chip.title = state === "include" ? "Included (click to exclude)"
+			: state === "exclude" ? "Excluded (click to clear)" : "Click to include";
+		chip.onclick = async () => {
+			if (state === "off") f.include.push(tag);
+			else if (state === "include") {
+				f.include.remove(tag);
+				f.exclude.push(tag);
+			} else f.exclude.remove(tag);
+			await apply();
+		};
+	}
+
+	if (isTagFilterActive(f)) {
+		const clear = bar.createEl("button", { cls: "tt-chip tt-chip-clear", text: "×" });
+		clear.title = "Clear tag filter";
+		clear.onclick = async () => {
+			f.include = [];
+			f.exclude = [];
+			await apply();
+		};
+	}
+}
+
+/** Display toggles in the status bar: hide completed tasks (optionally only older ones), empty files and finished subtrees. */
+export function renderDisplayBar(store: Store, onChange: () => void | Promise<void>) {
+	const bar = store.ui.displayBar;
+	bar.empty();
+	const m = store.display;
+
+	const apply = async () => {
+		store.persistState();
+		await onChange();
+	};
+	const toggle = (key: "hideCompleted" | "hideEmpty" | "openSubtrees", text: string, title: string) => {
+		const chip = bar.createEl("button", { cls: `tt-chip tt-chip-${m[key] ? "include" : "off"}`, text });
+		chip.title = title;
+		chip.onclick = async () => {
+			m[key] = !m[key];
+			await apply();
+		};
+	};
+
+	toggle("hideCompleted", "Hide done", "Hide completed tasks");
+	if (m.hideCompleted) {
+		const days = bar.createEl("input", { cls: "tt-display-days", type: "number" });
+		days.min = "0";
+		days.value = String(m.completedDays);
+		days.title = "Only hide tasks completed more than this many days ago (0 hides all)";
+		days.onchange = async () => {
+			const n = Math.floor(Number(days.value));
+			m.completedDays = Number.isFinite(n) && n > 0 ? n : 0;
+			await apply();
+		};
+	}
+	toggle("hideEmpty", "Hide empty", "Hide files and groups without an open task");
+	toggle("openSubtrees", "Open only", "Show only task trees that still have an open task");
+}
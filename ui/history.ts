@@ -0,0 +1,40 @@
+import { Notice } from "obsidian";
+import type { Store } from "../state/store";
+import { replayChanges } from "../io/files";
+import { flushEdits } from "../io/save";
+import { patchFiles } from "./render";
+
+export async function undo(store: Store) {
+	await flushEdits(store);
+	const entry = store.history.peekUndo();
+	if (!entry) { new Notice("Nothing to undo."); return; }
+	const paths = await replayChanges(store, entry.changes, "undo");
+	if (!paths) { new Notice(`Can't undo "${entry.label}": the note changed since.`); return; }
+	store.history.markUndone();
+	await patchFiles(store, paths);
+	new Notice(`Undid: ${entry.label}`);
+}
+
+export async function redo(store: Store) {
+	await flushEdits(store);
+	const entry = store.history.peekRedo();
+	if (!entry) { new Notice("Nothing to redo."); return; }
+	const paths = await replayChanges(store, entry.changes, "redo");
+	if (!paths) { new Notice(`Can't redo "${entry.label}": the note changed since.`); return; }
+	store.history.markRedone();
+	await patchFiles(store, paths);
+	new Notice(`Redid: ${entry.label}`);
+}
+
+/** A notice with an inline Undo button, shown after destructive actions. */
+export function noticeWithUndo(store: Store, message: string) {
+	const frag = document.createDocumentFragment();
+	frag.createSpan({ text: `${message} ` });
+	const btn = frag.createEl("button", { text: "Undo", cls: "mod-cta" });
+	const notice = new Notice(frag, 6000);
+	btn.onclick = async (e) => {
+		e.stopPropagation();
+		notice.hide();
+		await undo(store);
+	};
+}
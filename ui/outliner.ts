@@ -0,0 +1,137 @@
+import type { Store } from "../state/store";
+import { RowRef } from "../types";
+import * as Move from "../io/move";
+import { flushEdits, scheduleAutosave } from "../io/save";
+import { focusRow, patchFiles, reportWriteError, taskRow } from "./render";
+
+/**
+ * Outliner keys inside a row's editor:
+ * Enter adds a sibling below (splitting the text at the caret), Shift+Enter
+ * starts a new line of the same task, Tab / Shift+Tab
+ * indent and outdent the subtree, Alt+Up / Alt+Down move it past a sibling,
+ * Up / Down move between rows and Backspace removes an empty task.
+ */
+export async function onEditKeydown(store: Store, row: RowRef, e: KeyboardEvent) {
+	try {
+		await handleKey(store, row, e);
+	} catch (err) {
+		await reportWriteError(store, err, [row.filePath], "Edit");
+	}
+}
+
+async function handleKey(store: Store, row: RowRef, e: KeyboardEvent) {
+	if (e.isComposing) return;
+	const el = row.textCell;
+	const text = el.textContent ?? "";
+	const caret = caretOffset(el);
+	const mod = e.ctrlKey || e.metaKey;
+	const vertical = e.key === "ArrowUp" || e.key === "ArrowDown";
+
+	if (e.key === "Enter" && !e.shiftKey && !mod && !e.altKey) {
+		consume(e);
+		const after = text.slice(caret);
+		if (after) {
+			el.textContent = text.slice(0, caret);
+			store.markDirty();
+		}
+		await flushEdits(store);
+		const at = await store.withSquelch(() => Move.insertSiblingBelow(store, row, after.trim()));
+		if (at === null) return;
+		store.pendingFocus = { path: row.filePath, line: at };
+		await patchFiles(store, [row.filePath]);
+		return;
+	}
+
+	if (e.key === "Enter" && e.shiftKey && !mod && !e.altKey) {
+		// a plain "\n" (not the <br> or <div> the browser would add) so textContent keeps the line break
+		consume(e);
+		insertNewline(el);
+		store.markDirty();
+		scheduleAutosave(store);
+		return;
+	}
+
+	if (e.key === "Tab" && !mod && !e.altKey) {
+		consume(e);
+		await flushEdits(store);
+		const at = await store.withSquelch(() => Move.shiftSubtree(store, row, e.shiftKey ? -1 : 1));
+		if (at === null) return;
+		store.pendingFocus = { path: row.filePath, line: at };
+		await patchFiles(store, [row.filePath]);
+		return;
+	}
+
+	if (vertical && e.altKey && !mod && !e.shiftKey) {
+		consume(e);
+		await flushEdits(store);
+		const at = await store.withSquelch(() => Move.moveSubtreeVertical(store, row, e.key === "ArrowUp" ? -1 : 1));
+		if (at === null) return;
+		store.pendingFocus = { path: row.filePath, line: at };
+		await patchFiles(store, [row.filePath]);
+		return;
+	}
+
+	if (vertical && !e.altKey && !mod && !e.shiftKey) {
+		const up = e.key === "ArrowUp";
+		// inside multi-line text the arrows keep moving the caret between lines
+		if (up ? text.slice(0, caret).includes("\n") : text.slice(caret).includes("\n")) return;
+		const target = neighbourRow(store, row, up ? -1 : 1);
+		if (!target) return;
+		consume(e);
+		focusRow(store, target, up ? "end" : "start");
+		return;
+	}
+
+	// only a task with nothing under it in the note, shown or not: subtasks may be filtered out of the table
+	const bare = () => !store.childrenById.get(row.id)?.length && !row.notes.length;
+	if (e.key === "Backspace" && !mod && !text.trim() && bare()) {
+		consume(e);
+		const prev = neighbourRow(store, row, -1);
+		await flushEdits(store);
+		await store.withSquelch(() => Move.deleteSubtree(store, row));
+		if (prev) store.pendingFocus = { path: prev.filePath, line: prev.lineIndex };
+		await patchFiles(store, [row.filePath]);
+	}
+}
+
+function consume(e: KeyboardEvent) {
+	e.preventDefault();
+	e.stopPropagation();
+}
+
+/** Next (+1) or previous (-1) task row that is currently shown, built if it wasn't yet. */
+function neighbourRow(store: Store, row: RowRef, dir: -1 | 1): RowRef | null {
+	const rows = store.layoutRows;
+	const idx = rows.findIndex((r) => r.ref === row);
+	for (let i = idx + dir; i >= 0 && i < rows.length; i += dir) {
+		if (rows[i].entry && !rows[i].hidden) return taskRow(rows[i]) ?? null;
+	}
+	return null;
+}
+
+function insertNewline(el: HTMLElement) {
+	const sel = window.getSelection();
+	if (!sel || !sel.rangeCount) return;
+	const range = sel.getRangeAt(0);
+	if (!el.contains(range.startContainer)) return;
+	range.deleteContents();
+	// pre-wrap only shows a trailing newline when another one follows it
+	const atEnd = caretOffset(el) === (el.textContent ?? "").length;
+	const node = document.createTextNode(atEnd ? "\n\n" : "\n");
+	range.insertNode(node);
+	range.setStart(node, 1);
+	range.collapse(true);
+	sel.removeAllRanges();
+	sel.addRange(range);
+}
+
+function caretOffset(el: HTMLElement): number {
+	const sel = window.getSelection();
+	if (!sel || !sel.rangeCount) return (el.textContent ?? "").length;
+	const range = sel.getRangeAt(0);
+	if (!el.contains(range.endContainer)) return (el.textContent ?? "").length;
+	const pre = document.createRange();
+	pre.selectNodeContents(el);
+	pre.setEnd(range.endContainer, range.endOffset);
+	return pre.toString().length;
+}
@@ -0,0 +1,33 @@
+import type { Store } from "../state/store";
+import { debounce } from "../utils/debounce";
+
+/** Keeps the query box, its inline errors and `store.query` in sync. */
+export function wireQueryBar(store: Store, onChange: () => void | Promise<void>) {
+	const input = store.ui.queryInput;
+	input.value = store.querySource;
+
+	const fit = () => {
+		input.style.height = "auto";
+		input.style.height = `${input.scrollHeight}px`;
+	};
+
+	const run = debounce(async () => {
+		store.setQuery(input.value);
+		renderQueryErrors(store);
+		store.persistState();
+		await onChange();
+	}, 300);
+
+	input.addEventListener("input", () => { fit(); run(); });
+	fit();
+	renderQueryErrors(store);
+}
+
+export function renderQueryErrors(store: Store) {
+	const el = store.ui.queryErrors;
+	el.empty();
+	for (const err of store.query.errors) {
+		el.createDiv({ cls: "tt-query-error", text: `Line ${err.line}: ${err.message}` });
+	}
+	el.toggle(store.query.errors.length > 0);
+}
@@ -1,96 +1,333 @@
 import {MarkdownRenderer, Notice, Component, setIcon} from "obsidian";
 import { Store } from "../state/store";
-import { compileRules, scanTasks } from "../data/scan";
-import { GroupBucket, RowRef, TaskEntry } from "../types";
-import { buildLine, hsl } from "../utils/text";
+import { compileRules, invalidateCachedFile, scanTasks } from "../data/scan";
+import { FileBucket, GroupBucket, LayoutRow, MetaCells, MetaField, RowRef, RowScope, ScanResult, TaskEntry, TaskHeading, TaskMeta } from "../types";
+import { dedent, parseTaskLine, taskBodyText } from "../utils/text";
+import { PRIORITIES, PRIORITY_EMOJI, parseMeta, stripMeta } from "../utils/meta";
+import { filterWithAncestors, isTagFilterActive, matchesTagFilter } from "../data/filter";
+import { isQueryActive, matchesQuery, sortEntries } from "../data/query";
+import { applyDisplay, hasOpenTask, isDisplayActive } from "../data/display";
+import { nextStatus, statusOf, withoutHiddenStatuses } from "../data/statuses";
+import { renderDisplayBar, renderTagFilterBar } from "./filterbar";
+import { rowColor } from "./colors";
+import { appendRow, invalidateShown, renderWindow, resetWindow, revealRow, rowElement, scheduleWindow } from "./virtual";
+import { noticeWithUndo } from "./history";
+import { onEditKeydown } from "./outliner";
+import { onRowSelectClick, pruneSelection, renderSelection } from "./selection";
 import * as Move from "../io/move";
 import * as Save from "../io/save";
+import { MissingFileError, StaleRowError } from "../io/files";
+import { resolveCollapsed, stashCollapsed } from "../state/collapse";
+
+const COLUMNS = ["Task", "Due", "Scheduled", "Priority", "Tags", ""];
+const COL_COUNT = COLUMNS.length;
+
+// a file's rows under one heading; rows above the first heading get no header
+type SectionLayout = { key: string; heading?: TaskHeading; items: TaskEntry[] };
+// `shown` holds the ids of every row the file shows, to tell which rows still have subtasks on screen
+type FileLayout = { fb: FileBucket; fileKey: string; sections: SectionLayout[]; shown: Set<string> };
+type GroupLayout = { group: GroupBucket; files: FileLayout[] };
 
 export async function mountTable(store: Store) {
 	const scroller = store.ui?.scroller;
 	const prevScroll = scroller?.scrollTop ?? 0;
 
-	const compiled = compileRules(store.settings.regexRules ?? []);
-	const files = store.providers.getIndexedFiles();
-
-	const result = await scanTasks(store.app, compiled, files);
+	const result = await scan(store);
+	// ids are line numbers, so collapse state crosses the rescan by task text
+	stashCollapsed(store);
 	store.applyScan(result);
+	resolveCollapsed(store);
 
 	// Clear table
 	for (const r of store.rowRefs) r.mdComp?.unload?.();
 	store.resetTableMaps();
-	store.ui.tbody.empty();
+	resetWindow(store, COL_COUNT);
+	renderColumnHeader(store);
 	updateStatusIcon(store);
 
+	renderTagFilterBar(store, () => mountTable(store));
+	renderDisplayBar(store, () => mountTable(store));
+	renderSelection(store);
+
 	// Rebuild table content
-	if (result.groups.length > 0) {
-		if (!result.hasGroups) {
-			const only = result.groups[0]; // "__ALL__"
-			for (const fb of only.files) {
-				const fileKey = `__ALL__::${fb.filePath}`;
-				addFileHeader(store, fb.filePath, fb.fileName, "__ALL__", false, fileKey);
-				for (const e of fb.items) {
-					addTaskRow(store, e, !!store.childrenById.get(e.id)?.length, "__ALL__", fileKey);
-				}
-				addNewPlaceholder(store, fb.filePath, "__ALL__", fileKey);
-			}
-		} else {
-			for (const group of result.groups) {
-				addGroupHeader(store, group);
-				for (const fb of group.files) {
-					const fileKey = `${group.key}::${fb.filePath}`;
-					addFileHeader(store, fb.filePath, fb.fileName, group.key, true, fileKey);
-					for (const e of fb.items) {
-						addTaskRow(store, e, !!store.childrenById.get(e.id)?.length, group.key, fileKey);
-					}
-					addNewPlaceholder(store, fb.filePath, group.key, fileKey);
+	for (const { group, files } of planLayout(store, result)) {
+		if (result.hasGroups) addGroupHeader(store, group);
+		for (const { fb, fileKey, sections, shown } of files) {
+			addFileHeader(store, fb.filePath, fb.fileName, group.key, fileKey);
+			for (const section of sections) {
+				if (section.heading) addSectionHeader(store, section.heading, group.key, fileKey, section.key);
+				for (const e of section.items) {
+					addTaskRow(store, e, hasShownChildren(store, shown, e.id), group.key, fileKey, section.key);
 				}
+				addNewPlaceholder(store, fb.filePath, group.key, fileKey, section);
 			}
 		}
 	}
 
 	// Padding row
-	const padTr = store.ui.tbody.createEl("tr");
-	const padTd = padTr.createEl("td");
-	padTd.colSpan = 2;
-	padTd.style.padding = "12px 8px";
-
-	// Style pass
-	store.silentStylePass = true;
-	for (const r of store.rowRefs) {
-		const rk = `${r.groupKey}::${r.filePath}`;
-		const hidden = hasCollapsedAncestor(store, r.id)
-			|| store.collapsedGroups.has(r.groupKey)
-			|| store.collapsedFiles.has(rk);
-		r.tr.style.display = hidden ? "none" : "";
-		styleAndWireNumber(store, r);
-	}
-	store.silentStylePass = false;
+	appendRow(store, () => {
+		const padTr = createEl("tr");
+		const padTd = padTr.createEl("td");
+		padTd.colSpan = COL_COUNT;
+		padTd.style.padding = "12px 8px";
+		return padTr;
+	});
 
-	// Focus (clear pending before use to avoid loop)
-	const id = store.pendingFocusId;
-	store.pendingFocusId = null;
-	if (id) {
-		const ref = store.rowById.get(id);
-		if (ref) {
-			ref.previewCell.hide();
-			ref.textCell.show();
-			const sel = window.getSelection();
-			const range = document.createRange();
-			range.selectNodeContents(ref.textCell);
-			range.collapse(false);
-			sel?.removeAllRanges();
-			sel?.addRange(range);
-			ref.textCell.focus();
-		}
-	}
+	applyRowStyles(store);
+	applyPendingFocus(store);
 
 	// Restore scroll position
 	queueMicrotask(() => {
 		if (scroller) scroller.scrollTop = prevScroll;
+		renderWindow(store);
 	});
 }
 
+/**
+ * Re-parses only `paths` and patches their rows in place. Rows whose line is
+ * unchanged keep their DOM (if built) and rendered markdown (and with it focus and selection);
+ * other rows are added or removed. Falls back to a full mount when a file,
+ * group or heading section would appear or disappear.
+ */
+export async function patchFiles(store: Store, paths: string[]) {
+	const changed = new Set(paths);
+	for (const p of changed) invalidateCachedFile(p);
+	const result = await scan(store);
+	const layout = planLayout(store, result);
+
+	if (layoutChanged(store, layout)) {
+		await mountTable(store);
+		return;
+	}
+
+	const oldIds = new Map<string, string[]>();
+	for (const p of changed) oldIds.set(p, (store.tasksByFile.get(p) ?? []).map((e) => e.id));
+	store.applyScan(result);
+	const alive = new Set<string>();
+	for (const entries of store.tasksByFile.values()) for (const e of entries) alive.add(e.id);
+	const migrated = new Set<string>();
+	for (const { group, files } of layout) {
+		for (const file of files) {
+			const { fb } = file;
+			if (!changed.has(fb.filePath)) continue;
+			const renamed = patchFileRows(store, group.key, file);
+			// a file listed under several groups shares ids; move its collapse state once
+			if (!migrated.has(fb.filePath)) {
+				migrated.add(fb.filePath);
+				migrateCollapsed(store, oldIds.get(fb.filePath) ?? [], renamed, alive);
+			}
+		}
+	}
+
+	reindexRows(store);
+	pruneSelection(store);
+	renderTagFilterBar(store, () => mountTable(store));
+	updateStatusIcon(store);
+	applyRowStyles(store);
+	applyPendingFocus(store);
+}
+
+/**
+ * Whether files or heading sections came or went, or sections changed order.
+ * A file only changing places (sorted by modification time) keeps its spot
+ * until the next full mount, so rows don't jump away while being edited.
+ */
+function layoutChanged(store: Store, layout: GroupLayout[]): boolean {
+	const next = new Map<string, string>();
+	for (const g of layout) for (const f of g.files) next.set(f.fileKey, f.sections.map((s) => s.key).join("\n"));
+	// every section has one placeholder row, which knows its file
+	const shown = new Map<string, string[]>();
+	for (const [sectionKey, row] of store.newRowBySection) {
+		const fileKey = row.scope?.fileKey ?? "";
+		if (!shown.has(fileKey)) shown.set(fileKey, []);
+		shown.get(fileKey)!.push(sectionKey);
+	}
+	if (next.size !== shown.size) return true;
+	for (const [fileKey, sections] of next) if (shown.get(fileKey)?.join("\n") !== sections) return true;
+	return false;
+}
+
+function scan(store: Store) {
+	const compiled = compileRules(store.app, store.settings.rules ?? []);
+	const files = store.providers.getIndexedFiles();
+	return scanTasks(store.app, compiled, files, store.settings);
+}
+
+/** Which groups, files and rows the table shows, in order, after filters. */
+function planLayout(store: Store, result: ScanResult): GroupLayout[] {
+	const out: GroupLayout[] = [];
+	for (const group of result.groups) {
+		const files: FileLayout[] = [];
+		for (const fb of group.files) {
+			const items = visibleEntries(store, fb.items);
+			if (!items.length) continue;
+			if (store.display.hideEmpty && !hasOpenTask(items, (s) => store.isDone(s))) continue;
+			const fileKey = `${group.key}::${fb.filePath}`;
+			const shown = new Set(items.map((e) => e.id));
+			files.push({ fb, fileKey, sections: planSections(store, fileKey, items), shown });
+		}
+		if (files.length) out.push({ group, files });
+	}
+	return out;
+}
+
+/** Splits a file's rows by the heading above them, in note order; a single headerless section when off. */
+function planSections(store: Store, fileKey: string, items: TaskEntry[]): SectionLayout[] {
+	if (!store.settings.groupByHeading) return [{ key: fileKey, items }];
+	const byKey = new Map<string, SectionLayout>();
+	for (const e of items) {
+		const key = `${fileKey}::§${e.heading?.key ?? ""}`;
+		let section = byKey.get(key);
+		if (!section) byKey.set(key, section = { key, heading: e.heading, items: [] });
+		section.items.push(e);
+	}
+	// a sorting query reorders rows within a section, never the sections
+	return Array.from(byKey.values()).sort((a, b) => (a.heading?.lineIndex ?? -1) - (b.heading?.lineIndex ?? -1));
+}
+
+/** Matches new entries to existing rows by line content; returns old id → new id for reused rows. */
+function patchFileRows(store: Store, groupKey: string, { fileKey, sections, shown }: FileLayout) {
+	// a row is reused when its lines and its notes are unchanged
+	const key = (line: string, continuation: string[], notes: string[]) => [line, ...continuation, "", ...notes].join("\n");
+	const byLine = new Map<string, LayoutRow[]>();
+	for (const row of store.layoutRows) {
+		// a built row knows what was saved since the scan
+		const r = row.ref ?? row.entry;
+		if (!r || row.scope?.fileKey !== fileKey) continue;
+		const k = key(r.originalLine, r.continuation, r.notes);
+		if (!byLine.has(k)) byLine.set(k, []);
+		byLine.get(k)?.push(row);
+	}
+
+	const renamed = new Map<string, string>();
+	const next = new Map<string, LayoutRow[]>();
+	for (const section of sections) {
+		const rows: LayoutRow[] = [];
+		next.set(section.key, rows);
+		for (const e of section.items) {
+			const hasChildren = hasShownChildren(store, shown, e.id);
+			const reuse = byLine.get(key(e.originalLine, e.continuation, e.notes))?.shift();
+			if (reuse) {
+				if (reuse.entry) renamed.set(reuse.entry.id, e.id);
+				Object.assign(reuse, { entry: e, hasChildren, scope: { groupKey, fileKey, sectionKey: section.key } });
+				if (reuse.ref) Object.assign(reuse.ref, {
+					id: e.id, parentId: e.parentId, depth: e.depth, lineIndex: e.lineIndex,
+					hasChildren, rootKey: e.rootKey, sectionKey: section.key, blockId: e.blockId,
+				});
+				rows.push(reuse);
+			} else {
+				const row = addTaskRow(store, e, hasChildren, groupKey, fileKey, section.key);
+				if (row) rows.push(row);
+			}
+		}
+	}
+
+	const drop = new Set<LayoutRow>();
+	for (const rows of next.values()) for (const r of rows) drop.add(r);
+	for (const rows of byLine.values()) {
+		for (const r of rows) {
+			if (r.ref?.renderTimer) window.clearTimeout(r.ref.renderTimer);
+			r.ref?.mdComp?.unload?.();
+			r.tr?.remove();
+			drop.add(r);
+		}
+	}
+
+	// re-slot each section's rows just above its placeholder; the window only moves
+	// attached rows that end up out of place, so the row being edited is left alone
+	store.layoutRows = store.layoutRows.filter((row) => !drop.has(row));
+	for (const [sectionKey, rows] of next) {
+		const placeholder = store.newRowBySection.get(sectionKey);
+		const at = placeholder ? store.layoutRows.indexOf(placeholder) : store.layoutRows.length;
+		store.layoutRows.splice(at, 0, ...rows);
+	}
+	invalidateShown(store);
+	return renamed;
+}
+
+/** Moves a file's collapse state from its old ids to the new ones; block ids keep theirs, even across files. */
+function migrateCollapsed(store: Store, oldIds: string[], renamed: Map<string, string>, alive: Set<string>) {
+	for (const set of [store.collapsed, store.collapsedNotes]) {
+		const keep: string[] = [];
+		for (const [from, to] of renamed) if (set.has(from)) keep.push(to);
+		for (const id of oldIds) if (!renamed.has(id) && id.startsWith("^") && alive.has(id) && set.has(id)) keep.push(id);
+		for (const id of oldIds) set.delete(id);
+		for (const id of keep) set.add(id);
+	}
+}
+
+/** Rebuilds `rowById` and `rowRefs` from the layout after a patch. */
+function reindexRows(store: Store) {
+	store.rowById.clear();
+	store.rowRefs = [];
+	for (const row of store.layoutRows) {
+		if (row.entry) store.rowById.set(row.entry.id, row);
+		if (row.ref) store.rowRefs.push(row.ref);
+	}
+}
+
+/** Shows or hides every row for the current group, file, section and subtask collapse state. */
+export function applyRowStyles(store: Store) {
+	store.silentStylePass = true;
+	for (const row of store.layoutRows) {
+		row.hidden = (!!row.scope && isScopeCollapsed(store, row.scope))
+			|| (!!row.entry && hasCollapsedAncestor(store, row.entry.id));
+	}
+	for (const r of store.rowRefs) styleAndWireNumber(store, r);
+	store.silentStylePass = false;
+	invalidateShown(store);
+	scheduleWindow(store);
+}
+
+function isScopeCollapsed(store: Store, { groupKey, fileKey, sectionKey }: RowScope): boolean {
+	return store.collapsedGroups.has(groupKey)
+		|| (!!fileKey && store.collapsedFiles.has(fileKey))
+		|| (!!sectionKey && store.collapsedSections.has(sectionKey));
+}
+
+function applyPendingFocus(store: Store) {
+	// clear pending before use to avoid loop
+	const target = store.pendingFocus;
+	store.pendingFocus = null;
+	if (!target) return;
+	const row = store.layoutRows.find((r) => r.entry?.file.path === target.path && r.entry.lineIndex === target.line);
+	const ref = row && taskRow(row);
+	if (ref) focusRow(store, ref, "end");
+}
+
+/** A task row's RowRef, building the row if it wasn't yet; undefined for other rows. */
+export function taskRow(row: LayoutRow): RowRef | undefined {
+	if (!row.entry) return undefined;
+	rowElement(row);
+	return row.ref;
+}
+
+/** Puts the caret into a row's editor, scrolling the row into the window first. */
+export function focusRow(store: Store, ref: RowRef, caret: "start" | "end") {
+	const row = store.rowById.get(ref.id);
+	if (row) revealRow(store, row);
+	ref.previewCell.hide();
+	ref.textCell.show();
+	const sel = window.getSelection();
+	const range = document.createRange();
+	range.selectNodeContents(ref.textCell);
+	range.collapse(caret === "start");
+	sel?.removeAllRanges();
+	sel?.addRange(range);
+	ref.textCell.focus();
+}
+
+/** The file's entries that survive the display toggles, the tag filter and the query, in display order. */
+function visibleEntries(store: Store, items: TaskEntry[]): TaskEntry[] {
+	items = withoutHiddenStatuses(items, store.settings.statuses);
+	if (isDisplayActive(store.display)) items = applyDisplay(items, store.display, (s) => store.isDone(s));
+	const tagsOn = isTagFilterActive(store.tagFilter);
+	const queryOn = isQueryActive(store.query);
+	if (!tagsOn && !queryOn) return items;
+	const kept = filterWithAncestors(items, (e) =>
+		(!tagsOn || matchesTagFilter(e, store.tagFilter)) && matchesQuery(e, store.query));
+	return sortEntries(kept, store.query.sorts);
+}
 
 export function updateStatusIcon(store: Store) {
 	const el = store.ui.statusIcon;
@@ -109,6 +346,15 @@ export function updateStatusIcon(store: Store) {
 	}
 }
 
+function renderColumnHeader(store: Store) {
+	store.ui.thead.empty();
+	const tr = store.ui.thead.createEl("tr");
+	for (const name of COLUMNS) {
+		const th = tr.createEl("th", { text: name });
+		th.classList.add("tt-col-head");
+	}
+}
+
 function makeChevronButton(expanded: boolean) {
 	const btn = document.createElement("button");
 	Object.assign(btn.style, { background: "transparent", border: "none", padding: "0 6px 0 2px", cursor: "pointer", lineHeight: "1" });
@@ -129,10 +375,14 @@ function makeChevronButton(expanded: boolean) {
 }
 
 function addGroupHeader(store: Store, bucket: GroupBucket) {
+	store.groupHeaderRow.set(bucket.key, appendRow(store, () => groupHeader(store, bucket)));
+}
+
+function groupHeader(store: Store, bucket: GroupBucket): HTMLTableRowElement {
 	// Group header row (visible only in grouped mode)
-	const tr = store.ui.tbody.createEl("tr");
+	const tr = createEl("tr");
 	const td = tr.createEl("td");
-	td.colSpan = 2;
+	td.colSpan = COL_COUNT;
 	td.classList.add("task-cell");
 	Object.assign(td.style, {
 		padding: "8px 8px",
@@ -158,44 +408,23 @@ function addGroupHeader(store: Store, bucket: GroupBucket) {
 		if (collapsing) store.collapsedGroups.add(bucket.key);
 		else store.collapsedGroups.delete(bucket.key);
 		(chev as any)._setExpanded(!collapsing);
-
-		for (const fb of bucket.files) {
-			const fileKey = `${bucket.key}::${fb.filePath}`;
-			const ftr = store.fileHeaderRow.get(fileKey);
-			if (ftr) ftr.style.display = collapsing ? "none" : "";
-
-			const newTr = store.newRowByFile.get(fileKey);
-			if (newTr) newTr.style.display = collapsing || store.collapsedFiles.has(fileKey) ? "none" : "";
-
-			for (const r of store.rowRefs) {
-				if (r.groupKey !== bucket.key) continue;
-				if (r.filePath !== fb.filePath) continue;
-				const rk = `${r.groupKey}::${r.filePath}`;
-				r.tr.style.display =
-					collapsing || store.collapsedFiles.has(rk) || hasCollapsedAncestor(store, r.id)
-						? "none"
-						: "";
-			}
-		}
+		applyRowStyles(store);
+		store.persistState();
 	};
 	chev.onclick = toggle;
 	label.onclick = toggle;
 
-	store.groupHeaderRow.set(bucket.key, tr);
+	return tr;
 }
 
-function addFileHeader(
-	store: Store,
-	filePath: string,
-	fileName: string,
-	groupKey: string,
-	showGroupHeader: boolean,
-	fileKey: string
-) {
-	// In single-layer mode, we still reuse this helper—just pass showGroupHeader=false
-	const tr = store.ui.tbody.createEl("tr");
+function addFileHeader(store: Store, filePath: string, fileName: string, groupKey: string, fileKey: string) {
+	store.fileHeaderRow.set(fileKey, appendRow(store, () => fileHeader(store, filePath, fileName, groupKey, fileKey), { groupKey }));
+}
+
+function fileHeader(store: Store, filePath: string, fileName: string, groupKey: string, fileKey: string): HTMLTableRowElement {
+	const tr = createEl("tr");
 	const td = tr.createEl("td");
-	td.colSpan = 2;
+	td.colSpan = COL_COUNT;
 	td.classList.add("task-cell");
 	Object.assign(td.style, {
 		padding: "6px 8px",
@@ -209,7 +438,7 @@ function addFileHeader(
 	wrap.style.display = "flex";
 	wrap.style.alignItems = "center";
 
-	const expanded = !store.collapsedFiles.has(fileKey) && (!showGroupHeader || !store.collapsedGroups.has(groupKey));
+	const expanded = !store.collapsedFiles.has(fileKey) && !store.collapsedGroups.has(groupKey);
 	const chev = makeChevronButton(expanded);
 	wrap.appendChild(chev);
 
@@ -223,28 +452,100 @@ function addFileHeader(
 		if (collapsing) store.collapsedFiles.add(fileKey);
 		else store.collapsedFiles.delete(fileKey);
 		(chev as any)._setExpanded(!collapsing);
-
-		for (const r of store.rowRefs) {
-			if (r.filePath !== filePath) continue;
-			if (showGroupHeader && store.collapsedGroups.has(groupKey)) { r.tr.style.display = "none"; continue; }
-			r.tr.style.display = collapsing || hasCollapsedAncestor(store, r.id) ? "none" : "";
-		}
-
-		const newTr = store.newRowByFile.get(fileKey);
-		if (newTr) {
-			newTr.style.display = (showGroupHeader && store.collapsedGroups.has(groupKey)) || collapsing ? "none" : "";
-		}
+		applyRowStyles(store);
+		store.persistState();
 	};
 
 	chev.onclick = toggle;
 	label.onclick = toggle;
 
-	if (showGroupHeader && store.collapsedGroups.has(groupKey)) tr.style.display = "none";
-	store.fileHeaderRow.set(fileKey, tr);
+	if (store.settings.fileSort === "manual") wireFileDrag(store, tr, groupKey, filePath);
+	return tr;
+}
+
+/** Manual file order: a file header dropped on another one in the same group moves above it. */
+function wireFileDrag(store: Store, tr: HTMLTableRowElement, groupKey: string, filePath: string) {
+	tr.draggable = true;
+	tr.classList.add("tt-file-head");
+	tr.title = "Drag to reorder";
+	tr.addEventListener("dragstart", (e) => {
+		store.draggingFile = { groupKey, filePath };
+		e.dataTransfer?.setData("text/plain", filePath);
+	});
+	tr.addEventListener("dragend", () => { store.draggingFile = null; });
+	tr.addEventListener("dragover", (e) => {
+		const from = store.draggingFile;
+		if (!from || from.groupKey !== groupKey || from.filePath === filePath) return;
+		e.preventDefault();
+		tr.classList.add("hover-top");
+	});
+	tr.addEventListener("dragleave", () => tr.classList.remove("hover-top"));
+	tr.addEventListener("drop", async (e) => {
+		const from = store.draggingFile;
+		store.draggingFile = null;
+		tr.classList.remove("hover-top");
+		if (!from || from.groupKey !== groupKey || from.filePath === filePath) return;
+		e.preventDefault();
+
+		const prefix = `${groupKey}::`;
+		const order = Array.from(store.fileHeaderRow.keys())
+			.filter((k) => k.startsWith(prefix))
+			.map((k) => k.slice(prefix.length))
+			.filter((p) => p !== from.filePath);
+		order.splice(order.indexOf(filePath), 0, from.filePath);
+		// files hidden by the filters keep their place after the shown ones
+		const before = store.settings.manualOrder[groupKey] ?? [];
+		store.settings.manualOrder[groupKey] = [...order, ...before.filter((p) => !order.includes(p))];
+		await store.providers.saveSettings();
+		await mountTable(store);
+	});
+}
+
+function addSectionHeader(store: Store, heading: TaskHeading, groupKey: string, fileKey: string, sectionKey: string) {
+	const scope = { groupKey, fileKey };
+	store.sectionHeaderRow.set(sectionKey, appendRow(store, () => sectionHeader(store, heading, scope, sectionKey), scope));
+}
+
+function sectionHeader(store: Store, heading: TaskHeading, scope: RowScope, sectionKey: string): HTMLTableRowElement {
+	const tr = createEl("tr");
+	const td = tr.createEl("td");
+	td.colSpan = COL_COUNT;
+	td.classList.add("task-cell");
+	Object.assign(td.style, {
+		// deeper headings sit further in, so the outline of the note stays readable
+		padding: `4px 8px 4px ${8 + (heading.level - 1) * 12}px`,
+		fontWeight: "500",
+		fontSize: "0.95rem",
+		color: "var(--text-muted)",
+		background: "transparent",
+	});
+
+	const wrap = td.createDiv();
+	wrap.style.display = "flex";
+	wrap.style.alignItems = "center";
+
+	const chev = makeChevronButton(!store.collapsedSections.has(sectionKey) && !isScopeCollapsed(store, scope));
+	wrap.appendChild(chev);
+
+	const label = wrap.createSpan({ text: heading.text || "(untitled heading)" });
+	label.style.userSelect = "none";
+	label.style.cursor = "pointer";
+
+	const toggle = () => {
+		const collapsing = !store.collapsedSections.has(sectionKey);
+		if (collapsing) store.collapsedSections.add(sectionKey);
+		else store.collapsedSections.delete(sectionKey);
+		(chev as any)._setExpanded(!collapsing);
+		applyRowStyles(store);
+		store.persistState();
+	};
+	chev.onclick = toggle;
+	label.onclick = toggle;
+	return tr;
 }
 
 function styleAndWireNumber(store: Store, row: RowRef) {
-	const { numEl, hasChildren, id, depth, rootToken } = row;
+	const { numEl, hasChildren, id } = row;
 	Object.assign(numEl.style, {
 		display: "inline-flex", alignItems: "center", justifyContent: "center",
 		width: "1.5em", height: "1.5em", minWidth: "1.5em", flex: "0 0 auto",
@@ -253,9 +554,7 @@ function styleAndWireNumber(store: Store, row: RowRef) {
 	} as CSSStyleDeclaration);
 	numEl.style.fontWeight = hasChildren ? "900" as any : "100" as any;
 
-	const hue = store.hueByRootToken.get(rootToken) ?? 0;
-	const light = Math.min(store.L_MAX, store.L_BASE + (depth - 1) * store.L_STEP);
-	numEl.style.color = hsl(hue, store.SAT, light);
+	numEl.style.color = rowColor(store, row);
 
 	if (hasChildren) {
 		numEl.title = "Show/hide sub-tasks";
@@ -284,45 +583,50 @@ function styleAndWireNumber(store: Store, row: RowRef) {
 		if ((e as any).detail === 0) return;
 		if (hasChildren) { e.preventDefault(); e.stopPropagation(); toggleNode(store, id); }
 	};
-
-	row.tr.addEventListener("dragover", (e) => onRowDragOver(store, e, row));
-	row.tr.addEventListener("dragleave", () => onRowDragLeave(store, row));
-	row.tr.addEventListener("drop", (e) => onRowDrop(store, e, row));
 }
 
 function toggleNode(store: Store, id: string) {
 	if (store.collapsed.has(id)) expand(store, id);
 	else collapse(store, id);
+	store.persistState();
 }
 function collapse(store: Store, id: string) {
 	store.collapsed.add(id);
-	const row = store.rowById.get(id);
+	const row = store.rowById.get(id)?.ref;
 	if (row) styleAndWireNumber(store, row);
 	for (const childId of getDescendants(store, id)) {
 		const childRow = store.rowById.get(childId);
-		if (childRow) childRow.tr.style.display = "none";
+		if (childRow) childRow.hidden = true;
 	}
+	invalidateShown(store);
+	scheduleWindow(store);
 }
 function expand(store: Store, id: string) {
 	store.collapsed.delete(id);
-	const row = store.rowById.get(id);
+	const row = store.rowById.get(id)?.ref;
 	if (row) styleAndWireNumber(store, row);
 	for (const childId of getDescendants(store, id)) {
 		const r = store.rowById.get(childId);
 		if (!r) continue;
 		if (hasCollapsedAncestor(store, childId)) continue;
-		if (store.collapsedGroups.has(r.groupKey) || store.collapsedFiles.has(r.filePath)) continue;
-		r.tr.style.display = "";
+		if (r.scope && isScopeCollapsed(store, r.scope)) continue;
+		r.hidden = false;
 	}
+	invalidateShown(store);
+	scheduleWindow(store);
 }
 function hasCollapsedAncestor(store: Store, id: string): boolean {
-	let current = store.rowById.get(id);
+	let current = store.rowById.get(id)?.entry;
 	while (current?.parentId) {
 		if (store.collapsed.has(current.parentId)) return true;
-		current = store.rowById.get(current.parentId);
+		current = store.rowById.get(current.parentId)?.entry;
 	}
 	return false;
 }
+// subtasks the filters or display toggles hide can't be expanded, so they don't make a row foldable
+function hasShownChildren(store: Store, shown: Set<string>, id: string): boolean {
+	return (store.childrenById.get(id) ?? []).some((c) => shown.has(c));
+}
 function getDescendants(store: Store, id: string): string[] {
 	const out: string[] = [];
 	const stack = [...(store.childrenById.get(id) || [])];
@@ -358,7 +662,7 @@ function onRowDragOver(store: Store, e: DragEvent, target: RowRef) {
 function onRowDragLeave(store: Store, _target: RowRef) { /* no-op */ }
 function clearHoverStyles(store: Store) {
 	if (!store.hoverTarget) return;
-	const targetRow = store.rowById.get(store.hoverTarget.id);
+	const targetRow = store.rowById.get(store.hoverTarget.id)?.ref;
 	if (!targetRow) { store.hoverTarget = null; return; }
 	targetRow.tr.classList.remove("hover-top", "hover-bottom");
 	targetRow.tr.style.outline = "";
@@ -374,11 +678,12 @@ async function onRowDrop(store: Store, e: DragEvent, target: RowRef) {
 	if (!sourceId || !hover) return;
 	if (sourceId === target.id) return;
 
-	const source = store.rowById.get(sourceId);
+	const source = store.rowById.get(sourceId)?.ref;
 	if (!source) return;
 
 	try {
 		const st = store.ui.scroller?.scrollTop ?? 0;
+		await Save.flushEdits(store);
 		await store.withSquelch(async () => {
 			if (hover.mode === "on") await Move.moveAsTopChild(store, source, target);
 			else {
@@ -386,24 +691,54 @@ async function onRowDrop(store: Store, e: DragEvent, target: RowRef) {
 				await Move.moveBetweenWithMaxNeighborDepth(store, source, target, after);
 			}
 		});
-		await mountTable(store);
+		await patchFiles(store, [source.filePath, target.filePath]);
 		if (store.ui.scroller) store.ui.scroller.scrollTop = st;
-		new Notice("Item moved.");
+		noticeWithUndo(store, "Item moved.");
 	} catch (err) {
-		console.error(err);
-		new Notice("Move failed.");
+		await reportWriteError(store, err, [source.filePath, target.filePath], "Move");
+	}
+}
+
+/**
+ * Notice for a failed write. A row that can't be found in its note goes to the
+ * conflict dialog; either way the note moved on, so its rows are redrawn.
+ */
+export async function reportWriteError(store: Store, err: unknown, paths: string[], action: string) {
+	if (err instanceof StaleRowError) {
+		await Save.resolveStaleRow(store, err.row);
+		new Notice(`${action} skipped. The table was refreshed, try again.`);
+		await patchFiles(store, paths);
+		return;
+	}
+	if (err instanceof MissingFileError) {
+		new Notice(`${err.message} The table was refreshed, try again.`);
+		await patchFiles(store, paths);
+		return;
 	}
+	console.error(err);
+	new Notice(`${action} failed.`);
 }
 
-export function addTaskRow(store: Store, entry: TaskEntry, hasChildren: boolean, groupKey: string, fileKey: string) {
-	const { file, lineIndex, originalLine, depth, rootToken, id, parentId } = entry;
-	const m = originalLine.match(/^\s*([-*])\s\[( |x|X)\]\s(.+)$/);
-	if (!m) return;
+/** Adds a task to the layout; its row is built by `taskRowElement` once it is needed. */
+export function addTaskRow(store: Store, entry: TaskEntry, hasChildren: boolean, groupKey: string, fileKey: string, sectionKey: string): LayoutRow | undefined {
+	if (!parseTaskLine(entry.originalLine)) return;
+	const row: LayoutRow = appendRow(store, () => taskRowElement(store, row), { groupKey, fileKey, sectionKey });
+	row.entry = entry;
+	row.hasChildren = hasChildren;
+	store.rowById.set(entry.id, row);
+	return row;
+}
+
+function taskRowElement(store: Store, row: LayoutRow): HTMLTableRowElement {
+	const entry = row.entry!;
+	const { groupKey, sectionKey = "" } = row.scope!;
+	const { file, lineIndex, originalLine, depth, rootKey, id, parentId } = entry;
+	const parsed = parseTaskLine(originalLine)!;
+	const hasChildren = !!row.hasChildren;
 
-	const checked = m[2].toLowerCase() === "x";
-	const text = m[3];
+	const text = taskBodyText(originalLine, entry.continuation);
 
-	const tr = store.ui.tbody.createEl("tr");
+	const tr = createEl("tr");
 	tr.classList.add("task-row");
 
 	const tdLeft = tr.createEl("td");
@@ -416,8 +751,9 @@ export function addTaskRow(store: Store, entry: TaskEntry, hasChildren: boolean,
 	const ctrls = leftWrap.createDiv({ cls: "tt-ctrls" });
 	ctrls.style.cssText = "display:inline-flex;align-items:center;gap:6px;";
 
-	const cb = ctrls.createEl("input", { attr: { type: "checkbox" } }) as HTMLInputElement;
-	cb.checked = checked;
+	// status toggle: a themed task checkbox carrying the symbol in data-task, like Obsidian's own
+	const cb = ctrls.createEl("input", { cls: "task-list-item-checkbox", attr: { type: "checkbox" } }) as HTMLInputElement;
+	showStatus(store, cb, parsed.status);
 	cb.style.flex = "0 0 auto";
 
 // delete button lives next to the checkbox
@@ -448,6 +784,8 @@ export function addTaskRow(store: Store, entry: TaskEntry, hasChildren: boolean,
 	preview.addClass("markdown-preview-view", "tt-md", "task-preview");
 	Object.assign(preview.style, { minWidth: "0", cursor: "text", padding: "0" });
 
+	const metaCells = addMetaCells(tr, entry.meta);
+
 	const tdRight = tr.createEl("td");
 	tdRight.classList.add("task-cell");
 	Object.assign(tdRight.style, { padding: "6px 8px", textAlign: "right", whiteSpace: "nowrap", verticalAlign: "top" });
@@ -460,26 +798,64 @@ export function addTaskRow(store: Store, entry: TaskEntry, hasChildren: boolean,
 		const anyApp = store.app as any;
 		const mdView = anyApp.workspace?.getActiveFileView?.();
 		const editor = mdView?.editor ?? null;
-		if (editor?.setCursor) editor.setCursor({ line: lineIndex, ch: 0 });
+		if (editor?.setCursor) editor.setCursor({ line: rowRef.lineIndex, ch: 0 });
 	};
 
+	if (store.settings.blockIds) {
+		const linkBtn = tdRight.createEl("button", { attr: { title: "Copy link to task", "aria-label": "Copy link to task" } });
+		setIcon(linkBtn, "link");
+		Object.assign(linkBtn.style, { padding: "4px 8px", marginRight: "4px" });
+		tdRight.prepend(linkBtn);
+		linkBtn.onclick = async () => {
+			try {
+				await Save.flushEdits(store);
+				const had = rowRef.blockId;
+				const blockId = await store.withSquelch(() => Save.ensureRowBlockId(store, rowRef));
+				const linkText = store.app.metadataCache.fileToLinktext(file, "");
+				await navigator.clipboard.writeText(`[[${linkText}#^${blockId}]]`);
+				new Notice("Link copied.");
+				if (!had) await patchFiles(store, [rowRef.filePath]);
+			} catch (err) {
+				await reportWriteError(store, err, [rowRef.filePath], "Copy link");
+			}
+		};
+	}
+
 	const mdComp = new Component();
 	(store as any).addChild?.(mdComp);
 
 	const rowRef: RowRef = {
 		id, parentId, depth, hasChildren, filePath: file.path, lineIndex, tr,
-		numEl, checkbox: cb, textCell: editable, previewCell: preview, mdComp,
-		originalLine, rootToken, groupKey, leftWrap,
+		numEl, checkbox: cb, status: parsed.status, textCell: editable, previewCell: preview, mdComp,
+		originalLine, continuation: entry.continuation, rootKey, groupKey, sectionKey, leftWrap, metaCells, notes: entry.notes,
+		blockId: entry.blockId,
 	};
+	const notesBody = entry.notes.length ? addNotes(store, textWrap, rowRef) : null;
 
-	renderMarkdown(store, rowRef).then(() => updateRowLayout(rowRef, text));
+	// markdown is rendered the first time the row scrolls into the window
+	store.onFirstAttach.set(tr, () => {
+		renderMarkdown(store, rowRef).then(() => updateRowLayout(rowRef, text));
+		if (notesBody) MarkdownRenderer.render(store.app, dedent(rowRef.notes).join("\n"), notesBody, rowRef.filePath, mdComp);
+	});
 
 	preview.addEventListener("click", () => { preview.hide(); editable.show(); editable.focus(); });
 	editable.addEventListener("blur", async () => {
 		preview.show(); editable.hide();
+		fillMetaCells(metaCells, parseMeta((editable.textContent ?? "").split("\n")[0]));
 		await renderMarkdown(store, rowRef);
 	});
 
+	const onMetaChange = async (field: MetaField, value: string) => {
+		store.markDirty();
+		await Save.saveMetaField(store, rowRef, field, value);
+		await renderMarkdown(store, rowRef);
+	};
+	metaCells.due.onchange = () => onMetaChange("due", metaCells.due.value);
+	metaCells.scheduled.onchange = () => onMetaChange("scheduled", metaCells.scheduled.value);
+	metaCells.priority.onchange = () => onMetaChange("priority", metaCells.priority.value);
+
+	editable.addEventListener("keydown", (e) => onEditKeydown(store, rowRef, e));
+
 	editable.addEventListener("input", () => {
 		store.markDirty();
 		updateRowLayout(rowRef, editable.textContent ?? "");
@@ -487,32 +863,98 @@ export function addTaskRow(store: Store, entry: TaskEntry, hasChildren: boolean,
 	});
 
 	cb.onchange = async () => {
+		rowRef.status = nextStatus(store.settings.statuses, rowRef.status);
+		showStatus(store, cb, rowRef.status);
 		store.markDirty();
-		await Save.saveRowImmediate(store, {
-			filePath: file.path, lineIndex, originalLine: rowRef.originalLine,
-			checked: cb.checked, text: editable.textContent ?? "",
-		});
-		rowRef.originalLine = buildLine(rowRef.originalLine, cb.checked, editable.textContent ?? "");
+		await Save.saveRowImmediate(store, rowRef, rowRef.status, editable.textContent ?? "");
+		if (!statusOf(store.settings.statuses, rowRef.status).show) await patchFiles(store, [rowRef.filePath]);
 	};
 
 	delBtn.onclick = async () => {
 		try {
 			store.setSaving(true);
 			const st = store.ui.scroller?.scrollTop ?? 0;
+			await Save.flushEdits(store);
 			await store.withSquelch(async () => { await Move.deleteSubtree(store, rowRef); });
-			await mountTable(store);
+			await patchFiles(store, [rowRef.filePath]);
 			if (store.ui.scroller) store.ui.scroller.scrollTop = st;
-			new Notice("Task deleted.");
+			noticeWithUndo(store, "Task deleted.");
+		} catch (err) {
+			await reportWriteError(store, err, [rowRef.filePath], "Delete");
 		} finally {
 			store.setSaving(false);
 		}
 	};
 
-	if (store.collapsedGroups.has(groupKey) || store.collapsedFiles.has(fileKey)) tr.style.display = "none";
+	// modifier clicks select instead of editing or collapsing, so catch them before the cells do
+	tr.addEventListener("click", (e) => {
+		if (onRowSelectClick(store, rowRef, e)) { e.preventDefault(); e.stopPropagation(); }
+	}, true);
+	tr.addEventListener("dragover", (e) => onRowDragOver(store, e, rowRef));
+	tr.addEventListener("dragleave", () => onRowDragLeave(store, rowRef));
+	tr.addEventListener("drop", (e) => onRowDrop(store, e, rowRef));
 
+	row.ref = rowRef;
 	store.rowRefs.push(rowRef);
-	store.rowById.set(id, rowRef);
 	styleAndWireNumber(store, rowRef);
+	return tr;
+}
+
+function showStatus(store: Store, cb: HTMLInputElement, symbol: string) {
+	const status = statusOf(store.settings.statuses, symbol);
+	cb.checked = symbol !== " ";
+	cb.dataset.task = symbol === " " ? "" : symbol;
+	cb.title = `${status.name} — click for ${statusOf(store.settings.statuses, nextStatus(store.settings.statuses, symbol)).name}`;
+}
+
+/** Read-only notes under the task text with a toggle; the markdown is rendered when the row first attaches. */
+function addNotes(store: Store, textWrap: HTMLDivElement, row: RowRef): HTMLDivElement {
+	const lineCount = row.notes.length;
+	const wrap = textWrap.createDiv({ cls: "tt-notes" });
+	const toggle = wrap.createDiv({ cls: "tt-notes-toggle" });
+	const body = wrap.createDiv({ cls: "markdown-preview-view tt-md tt-notes-body" });
+	const show = () => {
+		const open = !store.collapsedNotes.has(row.id);
+		toggle.setText(`${open ? "▾" : "▸"} ${lineCount} ${lineCount === 1 ? "line" : "lines"} of notes`);
+		body.toggle(open);
+	};
+	toggle.onclick = () => {
+		if (store.collapsedNotes.has(row.id)) store.collapsedNotes.delete(row.id);
+		else store.collapsedNotes.add(row.id);
+		show();
+		scheduleWindow(store);
+		store.persistState();
+	};
+	show();
+	return body;
+}
+
+function addMetaCells(tr: HTMLTableRowElement, meta: TaskMeta): MetaCells {
+	const cell = () => {
+		const td = tr.createEl("td");
+		td.classList.add("task-cell", "tt-meta-cell");
+		Object.assign(td.style, { padding: "6px 4px", verticalAlign: "top", whiteSpace: "nowrap" });
+		return td;
+	};
+
+	const due = cell().createEl("input", { attr: { type: "date" } }) as HTMLInputElement;
+	const scheduled = cell().createEl("input", { attr: { type: "date" } }) as HTMLInputElement;
+	const priority = cell().createEl("select") as HTMLSelectElement;
+	priority.createEl("option", { text: "", value: "" });
+	for (const p of PRIORITIES) priority.createEl("option", { text: `${PRIORITY_EMOJI[p]} ${p}`, value: p });
+	const tags = cell().createDiv({ cls: "tt-tags" });
+
+	const cells = { due, scheduled, priority, tags };
+	fillMetaCells(cells, meta);
+	return cells;
+}
+
+function fillMetaCells(cells: MetaCells, meta: TaskMeta) {
+	cells.due.value = meta.due ?? "";
+	cells.scheduled.value = meta.scheduled ?? "";
+	cells.priority.value = meta.priority ?? "";
+	cells.tags.empty();
+	for (const tag of meta.tags) cells.tags.createSpan({ cls: "tt-tag", text: tag });
 }
 
 function updateRowLayout(row: RowRef, text: string) {
@@ -522,13 +964,18 @@ function updateRowLayout(row: RowRef, text: string) {
 }
 
 async function renderMarkdown(store: Store, row: RowRef) {
-	const markdown = (row.textCell.textContent ?? "").trim();
+	const markdown = stripMeta(row.textCell.textContent ?? "");
 	row.previewCell.empty();
 	await MarkdownRenderer.render(store.app, markdown, row.previewCell, row.filePath, row.mdComp);
 }
 
-function addNewPlaceholder(store: Store, filePath: string, groupKey: string, fileKey: string) {
-	const tr = store.ui.tbody.createEl("tr"); tr.classList.add("task-row", "task-new");
+function addNewPlaceholder(store: Store, filePath: string, groupKey: string, fileKey: string, section: SectionLayout) {
+	const scope = { groupKey, fileKey, sectionKey: section.key };
+	store.newRowBySection.set(section.key, appendRow(store, () => newPlaceholder(store, filePath, section), scope));
+}
+
+function newPlaceholder(store: Store, filePath: string, section: SectionLayout): HTMLTableRowElement {
+	const tr = createEl("tr"); tr.classList.add("task-row", "task-new");
 
 	const tdLeft = tr.createEl("td");
 	tdLeft.classList.add("task-cell");
@@ -548,11 +995,10 @@ function addNewPlaceholder(store: Store, filePath: string, groupKey: string, fil
 	Object.assign(input.style, { whiteSpace: "pre-wrap", outline: "none" });
 
 	const tdRight = tr.createEl("td");
+	tdRight.colSpan = COL_COUNT - 1;
 	tdRight.classList.add("task-cell");
 	Object.assign(tdRight.style, { padding: "6px 8px", textAlign: "right", whiteSpace: "nowrap", verticalAlign: "top" });
 
-	if (store.collapsedGroups.has(groupKey) || store.collapsedFiles.has(fileKey)) tr.style.display = "none";
-
 	const clearPlaceholder = () => {
 		if (input.classList.contains("placeholder")) { input.empty(); input.classList.remove("placeholder"); }
 	};
@@ -566,7 +1012,8 @@ function addNewPlaceholder(store: Store, filePath: string, groupKey: string, fil
 	const commit = async () => {
 		const text = (input.textContent ?? "").trim();
 		if (!text || input.classList.contains("placeholder")) return;
-		await Save.createNewTaskAtEnd(store, filePath, text);
+		if (store.settings.groupByHeading) await Save.createNewTaskInSection(store, filePath, section.heading ?? null, text);
+		else await Save.createNewTaskAtEnd(store, filePath, text);
 	};
 	input.addEventListener("keydown", async (e: KeyboardEvent) => {
 		if (e.key === "Enter") { e.preventDefault(); await commit(); }
@@ -586,16 +1033,16 @@ function addNewPlaceholder(store: Store, filePath: string, groupKey: string, fil
 	tr.addEventListener("drop", async (e) => {
 		e.preventDefault(); tr.classList.remove("hover-top");
 		if (!store.draggingId) return;
-		const source = store.rowById.get(store.draggingId); store.draggingId = null;
+		const source = store.rowById.get(store.draggingId)?.ref; store.draggingId = null;
 		if (!source) return;
 		const st = store.ui.scroller?.scrollTop ?? 0;
 		try {
+			await Save.flushEdits(store);
 			await store.withSquelch(async () => { await Move.moveSubtreeToFileEnd(store, source, filePath, 1); })
-			await mountTable(store);
+			await patchFiles(store, [source.filePath, filePath]);
 			if (store.ui.scroller) store.ui.scroller.scrollTop = st;
-			new Notice("Item moved.");
-		} catch (err) { console.error(err); new Notice("Move failed."); }
+			noticeWithUndo(store, "Item moved.");
+		} catch (err) { await reportWriteError(store, err, [source.filePath, filePath], "Move"); }
 	});
-
-	store.newRowByFile.set(fileKey, tr);
+	return tr;
 }
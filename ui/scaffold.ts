@@ -19,6 +19,7 @@ export function createScaffold(container: HTMLElement, opts: { onOpenSettings: (
 	leftWrap.style.display = "inline-flex";
 	leftWrap.style.alignItems = "center";
 	leftWrap.style.gap = "8px";
+	leftWrap.style.minWidth = "0";
 
 	const gearBtn = leftWrap.createEl("button");
 	gearBtn.setAttr("aria-label", "Open settings");
@@ -26,6 +27,10 @@ export function createScaffold(container: HTMLElement, opts: { onOpenSettings: (
 	gearBtn.textContent = "⚙︎";
 	gearBtn.onclick = () => opts.onOpenSettings();
 
+	const selectionBar = leftWrap.createDiv({ cls: "tt-selection-bar" });
+	const displayBar = leftWrap.createDiv({ cls: "tt-display-bar" });
+	const filterBar = leftWrap.createDiv({ cls: "tt-filter-bar" });
+
 	const rightWrap = statusBar.createDiv();
 	rightWrap.style.display = "inline-flex";
 	rightWrap.style.alignItems = "center";
@@ -36,6 +41,13 @@ export function createScaffold(container: HTMLElement, opts: { onOpenSettings: (
 		width: "18px", height: "18px", fontSize: "14px", opacity: "0.9", marginRight: "6px",
 	});
 
+	const queryBar = container.createDiv({ cls: "tt-query-bar" });
+	const queryInput = queryBar.createEl("textarea", { cls: "tt-query-input" });
+	queryInput.rows = 1;
+	queryInput.spellcheck = false;
+	queryInput.placeholder = "Query, one per line: not done · due before today · path includes Projects · sort by due";
+	const queryErrors = queryBar.createDiv({ cls: "tt-query-errors" });
+
 	const scroller = container.createDiv();
 	scroller.style.flex = "1 1 auto";
 	scroller.style.overflow = "auto";
@@ -44,7 +56,8 @@ export function createScaffold(container: HTMLElement, opts: { onOpenSettings: (
 	table.style.width = "100%";
 	table.style.borderCollapse = "collapse";
 	table.style.fontFamily = "var(--font-interface)";
+	const thead = table.createEl("thead");
 	const tbody = table.createEl("tbody");
 
-	return { container, statusBar, statusIcon, scroller, table, tbody };
+	return { container, statusBar, displayBar, filterBar, selectionBar, queryInput, queryErrors, statusIcon, scroller, table, thead, tbody };
 }
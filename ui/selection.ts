@@ -0,0 +1,110 @@
+import { App, FuzzySuggestModal, TFile } from "obsidian";
+import type { Store } from "../state/store";
+import { RowRef } from "../types";
+import * as Bulk from "../io/bulk";
+import { flushEdits } from "../io/save";
+import { patchFiles, reportWriteError, taskRow } from "./render";
+import { noticeWithUndo } from "./history";
+import { doneSymbol } from "../data/statuses";
+
+/**
+ * Ctrl/Cmd-click toggles a row, Shift-click selects the shown rows between the
+ * last clicked row and this one. Returns false for plain clicks and for clicks
+ * into form controls or the open editor, which keep their normal behaviour.
+ */
+export function onRowSelectClick(store: Store, row: RowRef, e: MouseEvent): boolean {
+	const toggle = e.ctrlKey || e.metaKey;
+	if (!toggle && !e.shiftKey) return false;
+	const target = e.target as HTMLElement;
+	if (target.closest("input, select, button, a") || row.textCell.contains(target)) return false;
+
+	const anchor = store.selectionAnchor && store.rowRefs.includes(store.selectionAnchor) ? store.selectionAnchor : null;
+	if (e.shiftKey && anchor) {
+		const rows = store.layoutRows;
+		const a = rows.findIndex((r) => r.ref === anchor), b = rows.findIndex((r) => r.ref === row);
+		if (!toggle) store.selected.clear();
+		for (let i = Math.min(a, b); i <= Math.max(a, b); i++) {
+			const r = rows[i].hidden ? undefined : taskRow(rows[i]);
+			if (r) store.selected.add(r);
+		}
+	} else {
+		if (store.selected.has(row)) store.selected.delete(row);
+		else store.selected.add(row);
+		store.selectionAnchor = row;
+	}
+	renderSelection(store);
+	return true;
+}
+
+export function clearSelection(store: Store) {
+	store.selected.clear();
+	store.selectionAnchor = null;
+	renderSelection(store);
+}
+
+/** Drops selected rows that a patch removed, then redraws. */
+export function pruneSelection(store: Store) {
+	const live = new Set(store.rowRefs);
+	for (const r of Array.from(store.selected)) if (!live.has(r)) store.selected.delete(r);
+	if (store.selectionAnchor && !live.has(store.selectionAnchor)) store.selectionAnchor = null;
+	renderSelection(store);
+}
+
+/** Row highlight plus the toolbar that replaces the tag chips while anything is selected. */
+export function renderSelection(store: Store) {
+	for (const r of store.rowRefs) r.tr.toggleClass("tt-selected", store.selected.has(r));
+
+	const bar = store.ui.selectionBar;
+	bar.empty();
+	store.ui.filterBar.toggle(store.selected.size === 0);
+	if (!store.selected.size) return;
+
+	bar.createSpan({ cls: "tt-selection-count", text: `${store.selected.size} selected` });
+	const action = (text: string, title: string, run: () => void) => {
+		const btn = bar.createEl("button", { cls: "tt-chip", text });
+		btn.title = title;
+		btn.onclick = run;
+	};
+	action("Done", "Mark selected tasks done", () => runBulk(store, "Update", (rows) => Bulk.bulkSetStatus(store, rows, doneSymbol(store.settings.statuses))));
+	action("Open", "Mark selected tasks not done", () => runBulk(store, "Update", (rows) => Bulk.bulkSetStatus(store, rows, " ")));
+	action("Indent", "Indent selected tasks", () => runBulk(store, "Indent", (rows) => Bulk.bulkShift(store, rows, 1)));
+	action("Outdent", "Outdent selected tasks", () => runBulk(store, "Outdent", (rows) => Bulk.bulkShift(store, rows, -1)));
+	action("Move…", "Move selected tasks to the end of a note", () => {
+		new FilePickerModal(store.app, store.providers.getIndexedFiles(), (file) =>
+			runBulk(store, "Move", (rows) => Bulk.bulkMoveToFile(store, rows, file.path), "Tasks moved.")).open();
+	});
+	action("Delete", "Delete selected tasks and their subtasks", () =>
+		runBulk(store, "Delete", (rows) => Bulk.bulkDelete(store, rows), "Tasks deleted."));
+
+	const clear = bar.createEl("button", { cls: "tt-chip tt-chip-clear", text: "×" });
+	clear.title = "Clear selection (Esc)";
+	clear.onclick = () => clearSelection(store);
+}
+
+async function runBulk(store: Store, action: string, apply: (rows: RowRef[]) => Promise<string[]>, undoMessage?: string) {
+	const rows = store.rowRefs.filter((r) => store.selected.has(r));
+	if (!rows.length) return;
+	const paths = Array.from(new Set(rows.map((r) => r.filePath)));
+	try {
+		store.setSaving(true);
+		await flushEdits(store);
+		const touched = await store.withSquelch(() => apply(rows));
+		clearSelection(store);
+		await patchFiles(store, touched);
+		if (undoMessage) noticeWithUndo(store, undoMessage);
+	} catch (err) {
+		await reportWriteError(store, err, paths, action);
+	} finally {
+		store.setSaving(false);
+	}
+}
+
+class FilePickerModal extends FuzzySuggestModal<TFile> {
+	constructor(app: App, private files: TFile[], private onPick: (file: TFile) => void) {
+		super(app);
+		this.setPlaceholder("Move selected tasks to…");
+	}
+	getItems() { return this.files; }
+	getItemText(file: TFile) { return file.path; }
+	onChooseItem(file: TFile) { this.onPick(file); }
+}
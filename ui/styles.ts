@@ -11,6 +11,9 @@ export function createStyles(view: ItemView) {
 .task-row { border-top: 2px solid transparent; border-bottom: 2px solid transparent; }
 .task-row.hover-top { border-top-color: var(--text-accent); }
 .task-row.hover-bottom { border-bottom-color: var(--text-accent); }
+.tt-file-head { border-top: 2px solid transparent; }
+.tt-file-head.hover-top { border-top-color: var(--text-accent); }
+.tt-parked { visibility: collapse; }
 .task-cell { border-bottom: 1px solid var(--background-modifier-border); }
 .task-new .placeholder { color: var(--text-muted); }
 .task-new .plus { display:inline-flex; align-items:center; justify-content:center;
@@ -26,7 +29,43 @@ export function createStyles(view: ItemView) {
 /* (Optional) ensure checkbox lines up nicely across themes */
 .row-wrap input[type="checkbox"] { vertical-align: middle; }
 
-.task-edit, .task-preview { font-size: var(--font-ui-medium, 14px); line-height: 1.4; }
+.tt-col-head { text-align:left; font-weight:600; font-size: var(--font-ui-small, 13px); color: var(--text-muted);
+  padding: 4px 8px; border-bottom: 1px solid var(--background-modifier-border); white-space:nowrap; }
+.tt-meta-cell input, .tt-meta-cell select { font-size: var(--font-ui-small, 13px); height: 1.8em; padding: 0 4px; }
+.tt-tags { display:flex; flex-wrap:wrap; gap:4px; }
+.tt-tag { font-size: var(--font-ui-smaller, 12px); color: var(--tag-color, var(--text-accent));
+  background: var(--tag-background, var(--background-modifier-hover)); border-radius: 8px; padding: 0 6px; }
+
+.tt-filter-bar { display:flex; align-items:center; gap:4px; overflow-x:auto; scrollbar-width:none; min-width:0; }
+.tt-chip { font-size: var(--font-ui-smaller, 12px); height: 20px; padding: 0 8px; border-radius: 10px;
+  border: 1px solid var(--background-modifier-border); background: transparent; box-shadow: none; cursor: pointer; white-space:nowrap; }
+.tt-chip-include { background: var(--interactive-accent); color: var(--text-on-accent); border-color: transparent; }
+.tt-chip-exclude { color: var(--text-error); border-color: var(--text-error); text-decoration: line-through; }
+.tt-chip-mode, .tt-chip-clear { color: var(--text-muted); font-weight: 600; }
+.tt-display-bar { display:flex; align-items:center; gap:4px; white-space:nowrap; }
+.tt-display-days { width: 3.5em; height: 20px; font-size: var(--font-ui-smaller, 12px); padding: 0 4px; }
+
+.tt-selection-bar { display:flex; align-items:center; gap:4px; white-space:nowrap; }
+.tt-selection-bar:empty { display:none; }
+.tt-selection-count { font-size: var(--font-ui-smaller, 12px); color: var(--text-muted); margin-right: 4px; }
+.task-row.tt-selected > td { background-color: var(--text-selection); }
+
+.tt-query-bar { flex: 0 0 auto; padding: 4px 8px; border-bottom: 1px solid var(--background-modifier-border); }
+.tt-query-input { width: 100%; resize: none; overflow: hidden; min-height: 1.8em; font-family: var(--font-monospace);
+  font-size: var(--font-ui-small, 13px); }
+.tt-query-error { color: var(--text-error); font-size: var(--font-ui-smaller, 12px); }
+
+.tt-conflict-line { margin: 8px 0; }
+.tt-conflict-line code { display: block; white-space: pre-wrap; word-break: break-word; }
+.tt-conflict-label { color: var(--text-muted); font-size: var(--font-ui-smaller, 12px); margin-bottom: 2px; }
+
+.tt-notes { margin-top: 2px; }
+.tt-notes-toggle { font-size: var(--font-ui-smaller, 12px); color: var(--text-faint); cursor: pointer; user-select: none; }
+.tt-notes-toggle:hover { color: var(--text-muted); }
+.tt-notes-body { color: var(--text-muted); font-size: var(--font-ui-small, 13px); padding: 0 0 0 12px !important;
+  border-left: 2px solid var(--background-modifier-border); }
+
+.task-edit, .task-preview { font-size: var(--font-ui-medium, 14px); line-height: 1.4; min-height: 1.4em; }
 `;
 	document.head.appendChild(style);
 	(view as any)._tt_dispose = () => style.remove();
@@ -0,0 +1,152 @@
+import type { Store } from "../state/store";
+import type { LayoutRow, RowScope } from "../types";
+
+// Rows are laid out in `store.layoutRows` (the model) but only the slice that is
+// on screen, plus a buffer, gets a <tr>, built the first time it enters the window
+// and attached to the tbody between two spacer rows. Collapse and filter code sets
+// `hidden` on the model and calls `invalidateShown` before asking for a redraw.
+
+const ESTIMATED_ROW_PX = 34;
+const BUFFER_PX = 800;
+
+/** Adds a row to the end of the layout; `build` runs once it is first needed. */
+export function appendRow(store: Store, build: () => HTMLTableRowElement, scope?: RowScope): LayoutRow {
+	const row: LayoutRow = { scope, hidden: false, build };
+	store.layoutRows.push(row);
+	invalidateShown(store);
+	return row;
+}
+
+/** The row's <tr>, built now if it wasn't yet. */
+export function rowElement(row: LayoutRow): HTMLTableRowElement {
+	if (!row.tr) row.tr = row.build();
+	return row.tr;
+}
+
+/** Forgets the shown rows; call after rows are added, removed, hidden or shown. */
+export function invalidateShown(store: Store) {
+	store.shownRows = null;
+}
+
+/** Empties the tbody and puts fresh spacers in it; call before rebuilding the layout. */
+export function resetWindow(store: Store, colSpan: number) {
+	const tbody = store.ui.tbody;
+	tbody.empty();
+	const spacer = () => {
+		const tr = tbody.createEl("tr", { cls: "tt-spacer" });
+		const td = tr.createEl("td");
+		td.colSpan = colSpan;
+		Object.assign(td.style, { padding: "0", border: "none", height: "0px" });
+		return tr;
+	};
+	const top = spacer();
+	const bottom = spacer();
+	if (store.rowWindow?.frame) cancelAnimationFrame(store.rowWindow.frame);
+	store.rowWindow = { top, bottom, attached: [], frame: 0 };
+}
+
+/** Redraws on scroll and resize; returns a disposer. */
+export function wireWindow(store: Store): () => void {
+	const scroller = store.ui.scroller;
+	const onScroll = () => scheduleWindow(store);
+	scroller.addEventListener("scroll", onScroll, { passive: true });
+	const ro = new ResizeObserver(onScroll);
+	ro.observe(scroller);
+	return () => {
+		scroller.removeEventListener("scroll", onScroll);
+		ro.disconnect();
+		if (store.rowWindow?.frame) cancelAnimationFrame(store.rowWindow.frame);
+	};
+}
+
+export function scheduleWindow(store: Store) {
+	const w = store.rowWindow;
+	if (!w || w.frame) return;
+	w.frame = requestAnimationFrame(() => {
+		w.frame = 0;
+		renderWindow(store);
+	});
+}
+
+const heightOf = (store: Store, row: LayoutRow) => store.rowHeights.get(row) ?? ESTIMATED_ROW_PX;
+
+const shownRows = (store: Store) => store.shownRows ?? (store.shownRows = store.layoutRows.filter((row) => !row.hidden));
+
+export function renderWindow(store: Store) {
+	const w = store.rowWindow;
+	if (!w) return;
+	const { scroller, thead } = store.ui;
+
+	for (const row of w.attached) {
+		const tr = row.tr;
+		if (tr?.isConnected && !tr.hasClass("tt-parked")) store.rowHeights.set(row, tr.offsetHeight);
+	}
+
+	const rows = shownRows(store);
+	const viewTop = scroller.scrollTop - thead.offsetHeight - BUFFER_PX;
+	const viewBottom = scroller.scrollTop + scroller.clientHeight + BUFFER_PX;
+
+	let y = 0, start = -1, end = -1, before = 0, inside = 0;
+	for (let i = 0; i < rows.length; i++) {
+		const h = heightOf(store, rows[i]);
+		if (y + h >= viewTop && y <= viewBottom) {
+			if (start < 0) { start = i; before = y; }
+			end = i;
+			inside += h;
+		}
+		y += h;
+	}
+	const desired = start < 0 ? [] : rows.slice(start, end + 1);
+	const keep = new Set(desired);
+
+	const dragging = store.draggingId ? store.rowById.get(store.draggingId) : undefined;
+	for (const row of w.attached) {
+		const tr = row.tr;
+		if (keep.has(row) || !tr) continue;
+		// the drag source has to stay in the document or dragend never fires; park it out of sight
+		if (row === dragging) {
+			tr.addClass("tt-parked");
+			w.bottom.after(tr);
+			continue;
+		}
+		// a focused cell would lose its blur handler (and its save) when detached
+		const active = document.activeElement;
+		if (active instanceof HTMLElement && tr.contains(active)) active.blur();
+		tr.remove();
+	}
+
+	const parent = w.top.parentElement;
+	if (parent) {
+		let cursor = w.top.nextSibling;
+		for (const row of desired) {
+			const tr = rowElement(row);
+			if (cursor === tr) { cursor = tr.nextSibling; continue; }
+			parent.insertBefore(tr, cursor);
+			const first = store.onFirstAttach.get(tr);
+			if (first) {
+				store.onFirstAttach.delete(tr);
+				first();
+			}
+		}
+	}
+	for (const row of desired) row.tr?.removeClass("tt-parked");
+	w.attached = dragging && !keep.has(dragging) && dragging.tr?.isConnected ? [...desired, dragging] : desired;
+
+	(w.top.firstChild as HTMLElement).style.height = `${before}px`;
+	(w.bottom.firstChild as HTMLElement).style.height = `${Math.max(0, y - before - inside)}px`;
+}
+
+/** Scrolls a row into view if needed and attaches it synchronously. */
+export function revealRow(store: Store, target: LayoutRow) {
+	const { scroller, thead } = store.ui;
+	let y = thead.offsetHeight;
+	for (const row of shownRows(store)) {
+		if (row === target) break;
+		y += heightOf(store, row);
+	}
+	const h = heightOf(store, target);
+	if (y < scroller.scrollTop || y + h > scroller.scrollTop + scroller.clientHeight) {
+		scroller.scrollTop = Math.max(0, y - scroller.clientHeight / 3);
+	}
+	renderWindow(store);
+}
@@ -0,0 +1,64 @@
+import type { App } from "obsidian";
+
+/** One level of list indentation in a note: a tab or a run of spaces. */
+export type IndentStyle = { unit: string };
+
+export const TAB_INDENT: IndentStyle = { unit: "\t" };
+
+const LIST_RX = /^([ \t]*)(?:[-*+]|\d+[.)])\s/;
+
+/**
+ * A note's indentation, read from its nested list items: tabs when most
+ * indented items use them, else the most common step in spaces between an item
+ * and its parent. `fallback` when the note has no nested lists.
+ */
+export function detectIndent(lines: string[], fallback: IndentStyle): IndentStyle {
+	let tabs = 0, spaces = 0;
+	const steps = new Map<number, number>();
+	// widths of the open list items above, outermost first
+	const open: number[] = [];
+	for (const line of lines) {
+		const m = line.match(LIST_RX);
+		if (!m) {
+			if (line.trim() && !/^\s/.test(line)) open.length = 0;
+			continue;
+		}
+		const lead = m[1];
+		if (lead.includes("\t")) { tabs++; continue; }
+		const width = lead.length;
+		while (open.length && open[open.length - 1] >= width) open.pop();
+		if (width > 0) {
+			spaces++;
+			const step = width - (open[open.length - 1] ?? 0);
+			steps.set(step, (steps.get(step) ?? 0) + 1);
+		}
+		open.push(width);
+	}
+	if (!tabs && !spaces) return fallback;
+	if (tabs >= spaces) return TAB_INDENT;
+	let best = 0, count = 0;
+	for (const [step, n] of steps) if (n > count || (n === count && step < best)) { best = step; count = n; }
+	return { unit: " ".repeat(best) };
+}
+
+/** The editor's "Indent using tabs" and "Tab indent size" settings. */
+export function vaultIndent(app: App): IndentStyle {
+	const getConfig = (app.vault as unknown as { getConfig?: (key: string) => unknown }).getConfig?.bind(app.vault);
+	if (!getConfig || getConfig("useTab") !== false) return TAB_INDENT;
+	const size = Number(getConfig("tabSize"));
+	return { unit: " ".repeat(Number.isFinite(size) && size > 0 ? size : 4) };
+}
+
+export const indentOf = (app: App, lines: string[]): IndentStyle => detectIndent(lines, vaultIndent(app));
+
+/** Levels of `from` at the start of `ws` become levels of `to`; spaces left over (alignment) stay. */
+export function convertIndent(ws: string, from: IndentStyle, to: IndentStyle): string {
+	if (from.unit === to.unit) return ws;
+	let levels = 0, i = 0;
+	while (i < ws.length) {
+		if (ws.startsWith(from.unit, i)) { levels++; i += from.unit.length; }
+		else if (ws[i] === "\t") { levels++; i++; }
+		else break;
+	}
+	return to.unit.repeat(levels) + ws.slice(i);
+}
@@ -0,0 +1,107 @@
+import { TaskMeta, MetaField, Priority } from "../types";
+
+export const PRIORITIES: Priority[] = ["highest", "high", "medium", "low", "lowest"];
+
+export const PRIORITY_EMOJI: Record<Priority, string> = {
+	highest: "🔺",
+	high: "⏫",
+	medium: "🔼",
+	low: "🔽",
+	lowest: "⏬",
+};
+
+const DATE_EMOJI: Record<Exclude<MetaField, "priority">, string> = {
+	due: "📅",
+	scheduled: "⏳",
+	start: "🛫",
+	done: "✅",
+};
+
+// Dataview spells completion differently from the Tasks emoji name
+const DATAVIEW_KEY: Record<MetaField, string> = {
+	due: "due",
+	scheduled: "scheduled",
+	start: "start",
+	done: "completion",
+	priority: "priority",
+};
+
+const DATE = "\\d{4}-\\d{2}-\\d{2}";
+const VS = "\\uFE0F?";
+const TAG_RX = /(?:^|\s)#([^\s#.,;:!?()[\]{}"'`]+)/;
+
+const escapeRx = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const emojiFieldRx = (field: MetaField) =>
+	field === "priority"
+		? new RegExp(`\\s*(${PRIORITIES.map((p) => PRIORITY_EMOJI[p]).join("|")})${VS}`, "u")
+		: new RegExp(`\\s*${DATE_EMOJI[field]}${VS}\\s*(${DATE})`, "u");
+
+const dataviewFieldRx = (field: MetaField) =>
+	new RegExp(`\\s*[[(]${escapeRx(DATAVIEW_KEY[field])}::\\s*([^\\])]*?)\\s*[\\])]`, "i");
+
+const normalizePriority = (v: string): Priority | undefined => {
+	const lower = v.trim().toLowerCase();
+	if ((PRIORITIES as string[]).includes(lower)) return lower as Priority;
+	return PRIORITIES.find((p) => PRIORITY_EMOJI[p] === v.trim());
+};
+
+const readField = (text: string, field: MetaField): string | undefined => {
+	const dv = text.match(dataviewFieldRx(field));
+	if (dv) return dv[1];
+	return text.match(emojiFieldRx(field))?.[1];
+};
+
+/** Extracts Tasks-plugin emoji fields, Dataview inline fields and #tags from a task's text. */
+export const parseMeta = (text: string): TaskMeta => {
+	const meta: TaskMeta = { tags: [] };
+	for (const field of ["due", "scheduled", "start", "done"] as const) {
+		const v = readField(text, field);
+		if (v && new RegExp(`^${DATE}$`).test(v)) meta[field] = v;
+	}
+	const p = readField(text, "priority");
+	if (p) meta.priority = normalizePriority(p);
+
+	const tags = new Set<string>();
+	const rx = new RegExp(TAG_RX.source, "g");
+	let m: RegExpExecArray | null;
+	while ((m = rx.exec(text))) tags.add(`#${m[1]}`);
+	meta.tags = Array.from(tags);
+	return meta;
+};
+
+/**
+ * Sets or clears one field in place. An existing Dataview field keeps its syntax,
+ * an existing emoji keeps its position; a new field follows the style already on the line.
+ */
+export const setMetaField = (text: string, field: MetaField, value: string | undefined): string => {
+	const formatEmoji = () =>
+		field === "priority" ? PRIORITY_EMOJI[value as Priority] : `${DATE_EMOJI[field]} ${value}`;
+
+	const dv = dataviewFieldRx(field);
+	if (dv.test(text)) {
+		return value
+			? text.replace(dv, (all) => all.replace(/::\s*[^\])]*?(\s*[\])])$/, `:: ${value}$1`))
+			: text.replace(dv, "");
+	}
+
+	const emoji = emojiFieldRx(field);
+	if (emoji.test(text)) {
+		return value ? text.replace(emoji, (all) => all.replace(/\S.*$/u, formatEmoji())) : text.replace(emoji, "");
+	}
+
+	if (!value) return text;
+	const usesDataview = /[[(][\w-]+::/.test(text);
+	const addition = usesDataview ? `[${DATAVIEW_KEY[field]}:: ${value}]` : formatEmoji();
+	return `${text.trimEnd()} ${addition}`;
+};
+
+/** Removes date and priority fields so the preview does not repeat what the columns show. */
+export const stripMeta = (text: string): string => {
+	let out = text;
+	for (const field of ["due", "scheduled", "start", "done", "priority"] as const) {
+		out = out.replace(new RegExp(dataviewFieldRx(field).source, "gi"), "");
+		out = out.replace(new RegExp(emojiFieldRx(field).source, "gu"), "");
+	}
+	return out.trim();
+};
@@ -1,36 +1,346 @@
-export const rootTokenFromLine = (line: string): string => {
-	const m = line.match(/^\s*[-*]\s\[[ xX]\]\s(.+?)\s*$/);
-	return (m?.[1] ?? line.trim()).toLowerCase();
+import { IndentStyle, TAB_INDENT, convertIndent } from "./indent";
+
+// `indent` includes any blockquote or callout prefix (`> `); `marker` is `-`, `*`, `+` or `1.` / `1)`
+export type TaskLine = { indent: string; marker: string; status: string; text: string };
+
+// indent, bullet, status and (possibly empty) text of a task line
+const TASK_LINE_RX = /^((?:[ \t]*>)*[ \t]*)([-*+]|\d+[.)])\s\[(.)\](?:\s(.*?))?\r?$/;
+
+// checkbox symbols that make a list item a task: Markdown's own plus the status registry's
+const MARKDOWN_SYMBOLS = [" ", "x", "X"];
+let taskSymbols = new Set(MARKDOWN_SYMBOLS);
+
+/** Reads the registry's symbols (see data/statuses.ts) as tasks too; call whenever it changes. */
+export function setTaskSymbols(symbols: string[]) {
+	taskSymbols = new Set(MARKDOWN_SYMBOLS.concat(symbols));
+}
+
+// the `> > ` in front of a line inside (nested) blockquotes and callouts, each with its optional space
+const QUOTE_RX = /^(?:[ \t]*>[ ]?)+/;
+
+export const quotePrefix = (line: string): string => line.match(QUOTE_RX)?.[0] ?? "";
+
+/** How many blockquotes or callouts the line sits in. */
+export const quoteDepth = (line: string): number => (quotePrefix(line).match(/>/g) || []).length;
+
+// `line` after its first `depth` quote markers, or null when it sits in fewer quotes
+const unquote = (line: string, depth: number): string | null => {
+	let rest = line;
+	for (let k = 0; k < depth; k++) {
+		const m = rest.match(/^[ \t]*>[ ]?/);
+		if (!m) return null;
+		rest = rest.slice(m[0].length);
+	}
+	return rest;
+};
+
+export const parseTaskLine = (line: string): TaskLine | null => {
+	const m = line.match(TASK_LINE_RX);
+	if (!m || !taskSymbols.has(m[3])) return null;
+	return { indent: m[1], marker: m[2], status: m[3], text: m[4] ?? "" };
+};
+
+// `^id` closing a block's last line: Obsidian's anchor for `[[note#^id]]` links
+const BLOCK_ID_RX = /(?:^|\s+)\^([A-Za-z0-9-]+)\s*$/;
+
+export const blockIdOf = (line: string): string | undefined => line.match(BLOCK_ID_RX)?.[1];
+
+export const withoutBlockId = (line: string): string => line.replace(BLOCK_ID_RX, "");
+
+/** The block ids `lines` already use. */
+export const blockIdsIn = (lines: string[]): Set<string> =>
+	new Set(lines.map((l) => blockIdOf(l)).filter((id): id is string => !!id));
+
+/** A random six-character block id that isn't in `taken`; it is added there, so the next one differs too. */
+export const newBlockId = (taken: Set<string> = new Set()): string => {
+	let id = "";
+	while (!id || taken.has(id)) id = (Math.random().toString(36).slice(2) + "000000").slice(0, 6);
+	taken.add(id);
+	return id;
+};
+
+export const taskTextFromLine = (line: string): string => parseTaskLine(line)?.text ?? line.trim();
+
+// columns one level of `style` spans: the width of its space indent, a tab stop for tabs
+const levelColumns = (style?: IndentStyle): number => (style && style.unit !== "\t" ? style.unit.length : 4);
+
+/** Nesting level of a line (1 at the left edge) by its `leadingWidth`, in levels of the note's `style`. */
+export const getIndentDepth = (line: string, style?: IndentStyle): number =>
+	1 + Math.floor(Math.max(0, leadingWidth(line)) / levelColumns(style));
+
+export const buildLine = (originalLine: string, status: string, text: string): string => {
+	const t = parseTaskLine(originalLine);
+	if (t) return `${t.indent}${t.marker} [${status}] ${text}`;
+	return `- [${status}] ${text}`;
+};
+
+/**
+ * Lines of a task: the bullet line plus one continuation line per further line
+ * of text, indented like the task's existing `continuation` (one level of the
+ * note's `style` past the bullet when it has none). A block id goes at the end of the last line, where Obsidian looks for it.
+ */
+export const buildTaskLines = (
+	originalLine: string, status: string, text: string, blockId?: string, continuation: string[] = [], style: IndentStyle = TAB_INDENT,
+): string[] => {
+	const [head, ...rest] = text.split("\n");
+	const cont = continuation[0]?.match(/^\s*/)?.[0] || `${parseTaskLine(originalLine)?.indent ?? ""}${style.unit}`;
+	const more = rest.map((l) => l.trim()).filter(Boolean).map((l) => `${cont}${l}`);
+	const lines = [buildLine(originalLine, status, head.trim()), ...more];
+	if (blockId) lines[lines.length - 1] = `${lines[lines.length - 1].trimEnd()} ^${blockId}`;
+	return lines;
+};
+
+/**
+ * Gives a new block id, unused in the block and in `taken` (the note's ids), to every task
+ * in `block` whose id `taken` already has, and with `missing` to every task without one.
+ */
+export const ensureBlockIds = (block: string[], taken: Set<string> = new Set(), missing = true): string[] => {
+	const out = block.slice();
+	// the line each task's id sits on, last of its text
+	const ends = new Set<number>();
+	for (let i = 0; i < out.length; i++) {
+		if (!parseTaskLine(out[i])) continue;
+		i = continuationEnd(out, i);
+		ends.add(i);
+	}
+	out.forEach((line, i) => { const id = blockIdOf(line); if (id && !ends.has(i)) taken.add(id); });
+	for (const i of Array.from(ends)) {
+		const id = blockIdOf(out[i]);
+		if (id && !taken.has(id)) taken.add(id);
+		else if (id || missing) out[i] = `${withoutBlockId(out[i]).trimEnd()} ^${newBlockId(taken)}`;
+	}
+	return out;
 };
 
-export const getIndentDepth = (line: string): number => {
-	const m = line.match(/^(\s*)[-*]\s\[[ xX]\]\s/);
-	if (!m) return 1;
-	const lead = m[1] ?? "";
-	const tabs = (lead.match(/\t/g) || []).length;
-	const spaces = lead.replace(/\t/g, "").length;
-	// treat every full 2 spaces as one level, plus each tab as one level
-	return 1 + tabs + Math.floor(spaces / 2);
+// ATX heading: level and text; closing hashes are dropped
+const HEADING_RX = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+
+export const parseHeading = (line: string): { level: number; text: string } | null => {
+	const m = line.match(HEADING_RX);
+	return m ? { level: m[1].length, text: m[2] } : null;
+};
+
+// a code fence line: its run of backticks or tildes
+const FENCE_RX = /^[ \t]*(`{3,}|~{3,})/;
+
+/**
+ * Indices of the lines in fenced code blocks, fences included. A block closes at
+ * a fence of the same character at least as long as its opening one, else at the end of the note.
+ */
+export const fencedLines = (lines: string[]): Set<number> => {
+	const out = new Set<number>();
+	let fence = "";
+	lines.forEach((line, i) => {
+		const mark = line.replace(QUOTE_RX, "").match(FENCE_RX)?.[1];
+		if (fence || mark) out.add(i);
+		if (mark && !fence) fence = mark;
+		else if (mark && mark[0] === fence[0] && mark.length >= fence.length) fence = "";
+	});
+	return out;
+};
+
+// lines that would start their own block instead of continuing the task's paragraph
+const BLOCK_START_RX = /^\s*([-*+]\s|\d+[.)]\s|```|~~~|>|#{1,6}\s|\|)/;
+
+/**
+ * Last line of the task starting at `start`: lines directly below it, indented
+ * deeper and not opening a list item, fence, quote, heading or table, continue
+ * its text (one markdown paragraph). Inside a quote they must carry the same
+ * quote prefix. Returns `start` when there are none.
+ */
+export const continuationEnd = (lines: string[], start: number): number => {
+	const width = leadingWidth(lines[start] ?? "");
+	const quote = quotePrefix(lines[start] ?? "");
+	let end = start;
+	for (let i = start + 1; i < lines.length; i++) {
+		const ln = lines[i];
+		if (quote && quotePrefix(ln) !== quote) break;
+		const body = ln.slice(quote.length);
+		if (!body.trim() || leadingWidth(ln) <= width || BLOCK_START_RX.test(body)) break;
+		end = i;
+	}
+	return end;
 };
 
+/**
+ * The task's text as edited in the table: bullet text and continuation lines,
+ * newline separated. The block id is left out; writes put it back.
+ */
+export const taskBodyText = (originalLine: string, continuation: string[]): string => {
+	const lines = [originalLine, ...continuation];
+	lines[lines.length - 1] = withoutBlockId(lines[lines.length - 1]);
+	const [head, ...rest] = lines;
+	return [parseTaskLine(head)?.text ?? head.trim(), ...rest.map((l) => l.trim())].join("\n");
+};
+
+/**
+ * Width in columns of a line's leading whitespace inside `depth` quotes (its own
+ * quote prefix by default), a tab reaching the next multiple of four as in
+ * markdown. This is the one measure for nesting: depth, notes, subtrees and
+ * lists all go by it. A quote nested deeper starts where its whitespace ends,
+ * so a quote indented under a task stays under it. -1 when the line sits in fewer quotes.
+ */
+export const leadingWidth = (line: string, depth = quoteDepth(line)): number => {
+	const rest = unquote(line, depth);
+	if (rest === null) return -1;
+	let w = 0;
+	for (let i = 0; i < rest.length; i++) {
+		if (rest[i] === " ") w++;
+		else if (rest[i] === "\t") w += 4 - (w % 4);
+		else break;
+	}
+	return w;
+};
+
+/** A line with nothing but whitespace and quote markers. */
+export const isBlankLine = (line: string): boolean => !line.replace(QUOTE_RX, "").trim();
+
+const LIST_MARK_RX = /^[ \t]*((?:[-*+]|\d+[.)]))(?=[ \t])/;
+
+/**
+ * Tells whether a line belongs to the block of the list item `item`: it sits in
+ * the item's quote and is indented past its bullet, or, right after a blank line,
+ * at least to where the item's text starts (as in markdown, so a later paragraph
+ * or code block indented less than that ends the item). Blank lines are the caller's to step over.
+ */
+export const blockOf = (item: string): ((line: string, afterBlank: boolean) => boolean) => {
+	const depth = quoteDepth(item);
+	const width = leadingWidth(item, depth);
+	const marker = (unquote(item, depth) ?? "").match(LIST_MARK_RX)?.[1];
+	const text = marker ? width + marker.length + 1 : width + 1;
+	return (line, afterBlank) => {
+		const w = leadingWidth(line, depth);
+		return w > width && (!afterBlank || w >= text);
+	};
+};
+
+/**
+ * Last line index of the outline block starting at `start`: every following line
+ * that `blockOf` puts under it (subtasks, notes, plain bullets, code), blank
+ * lines included only when more of the block follows them.
+ */
+export const findSubtreeEnd = (lines: string[], start: number): number => {
+	const under = blockOf(lines[start] ?? "");
+	let end = start;
+	let blank = false;
+	for (let i = start + 1; i < lines.length; i++) {
+		if (isBlankLine(lines[i])) { blank = true; continue; }
+		if (!under(lines[i], blank)) break;
+		end = i;
+		blank = false;
+	}
+	return end;
+};
+
+/**
+ * Moves a block so its first line sits at `depth` levels of `style`; the lines
+ * below keep their indentation relative to it, converted from the `source`
+ * note's style when the block comes from a note that indents differently.
+ * The block's own quote prefix is swapped for `quote` (kept when not given).
+ */
+export const reindentBlock = (
+	block: string[], depth: number, style: IndentStyle = TAB_INDENT, source: IndentStyle = style, quote?: string,
+): string[] => {
+	const ownQuote = quotePrefix(block[0] ?? "");
+	const outQuote = quote ?? ownQuote;
+	const bodies = block.map((ln) => (ln.startsWith(ownQuote) ? ln.slice(ownQuote.length) : ln.replace(QUOTE_RX, "")));
+	const from = (bodies[0] ?? "").match(/^\s*/)?.[0] ?? "";
+	const to = style.unit.repeat(Math.max(0, depth - 1));
+	return bodies.map((ln) => {
+		if (!ln.trim()) return outQuote ? outQuote.trimEnd() : ln;
+		if (!ln.startsWith(from)) return outQuote + to + ln.trimStart();
+		const rest = ln.slice(from.length);
+		const ws = rest.match(/^\s*/)?.[0] ?? "";
+		return outQuote + to + convertIndent(ws, source, style) + rest.slice(ws.length);
+	});
+};
+
+const ORDERED_RX = /^((?:[ \t]*>[ ]?)*[ \t]*)(\d+)([.)])(?=\s)/;
+
+export const orderedNumber = (line: string): number | undefined => {
+	const m = line.match(ORDERED_RX);
+	return m ? parseInt(m[2], 10) : undefined;
+};
+
+/**
+ * Line indices of the ordered list item at `at` and its siblings: items with
+ * the same quote, indentation and delimiter, nested lines and blank lines in
+ * between stepped over. Empty when `at` isn't an ordered item.
+ */
+export const orderedSiblings = (lines: string[], at: number): number[] => {
+	const m = lines[at]?.match(ORDERED_RX);
+	if (!m) return [];
+	const depth = quoteDepth(lines[at]);
+	const width = leadingWidth(lines[at], depth);
+	// -1 for a line that ends the list, 0 for one to step over, 1 for a sibling
+	const kind = (ln: string): -1 | 0 | 1 => {
+		const rest = unquote(ln, depth);
+		if (rest === null) return -1;
+		if (!rest.replace(QUOTE_RX, "").trim()) return 0;
+		const w = leadingWidth(rest, 0);
+		if (w > width) return 0;
+		const o = ln.match(ORDERED_RX);
+		return w === width && o && o[1] === m[1] && o[3] === m[3] ? 1 : -1;
+	};
+	const out = [at];
+	for (let i = at - 1; i >= 0; i--) {
+		const k = kind(lines[i]);
+		if (k < 0) break;
+		if (k > 0) out.unshift(i);
+	}
+	for (let i = at + 1; i < lines.length; i++) {
+		const k = kind(lines[i]);
+		if (k < 0) break;
+		if (k > 0) out.push(i);
+	}
+	return out;
+};
+
+/** Numbers the ordered list around `at` in sequence, from `from` (else its first item's number) on. */
+export const renumberOrdered = (lines: string[], at: number, from?: number) => {
+	const run = orderedSiblings(lines, at);
+	if (!run.length) return;
+	let n = from ?? orderedNumber(lines[run[0]]) ?? 1;
+	for (const i of run) lines[i] = lines[i].replace(ORDERED_RX, (_, lead: string, _n: string, delim: string) => `${lead}${n++}${delim}`);
+};
 
-export const buildLine = (originalLine: string, checked: boolean, text: string): string => {
-	const m = originalLine.match(/^(\s*[-*]\s)\[( |x|X)\]\s(.+)$/);
-	if (m) return `${m[1]}[${checked ? "x" : " "}] ${text}`;
-	return `- [${checked ? "x" : " "}] ${text}`;
+/** Strips the leading whitespace all non-blank lines share. */
+export const dedent = (lines: string[]): string[] => {
+	let common: string | null = null;
+	for (const ln of lines) {
+		if (!ln.trim()) continue;
+		const lead = ln.match(/^\s*/)?.[0] ?? "";
+		if (common === null) { common = lead; continue; }
+		let n = 0;
+		while (n < common.length && n < lead.length && common[n] === lead[n]) n++;
+		common = common.slice(0, n);
+	}
+	const cut = (common ?? "").length;
+	return lines.map((ln) => ln.slice(Math.min(cut, ln.length - ln.trimStart().length)));
 };
 
-export const lineWithDepth = (originalLine: string, newDepth: number): string => {
-	const indent = "\t".repeat(Math.max(0, newDepth - 1));
-	const m = originalLine.match(/^(\s*)([-*]\s\[[ xX]\]\s)(.+)$/);
-	if (m) return `${indent}${m[2]}${m[3]}`;
-	const m2 = originalLine.match(/^\s*[-*]\s\[( |x|X)\]\s(.+)$/);
-	const checked = m2 ? m2[1].toLowerCase() === "x" : false;
-	const text = m2 ? m2[2] : originalLine.trim();
-	return `${indent}- [${checked ? "x" : " "}] ${text}`;
+/**
+ * Three-way merge of one task (its line plus continuation lines, newline joined):
+ * status and text each come from whichever side changed them (ours wins when
+ * both did); indentation and bullet are theirs. `style` indents new continuation lines.
+ */
+export const mergeTaskLine = (base: string, mine: string, theirs: string, style?: IndentStyle): string => {
+	const split = (s: string) => {
+		const [head, ...rest] = s.split("\n");
+		const t = parseTaskLine(head);
+		return t ? { t, body: taskBodyText(head, rest) } : null;
+	};
+	const b = split(base), m = split(mine), t = split(theirs);
+	if (!b || !m || !t) return mine;
+	const status = m.t.status !== b.t.status ? m.t.status : t.t.status;
+	const text = m.body !== b.body ? m.body : t.body;
+	const lastLine = (s: string) => s.split("\n").pop() ?? "";
+	const blockId = blockIdOf(lastLine(theirs)) ?? blockIdOf(lastLine(mine));
+	const [theirHead, ...theirRest] = theirs.split("\n");
+	return buildTaskLines(theirHead, status, text, blockId, theirRest, style).join("\n");
 };
 
 export const hsl = (h: number, s: number, l: number) =>
 	`hsl(${Math.round(h)} ${Math.round(s)}% ${Math.round(l)}%)`;
 
-export const TASK_RX = /^\s*[-*]\s\[[ xX]\]\s.+/;
+export const isTaskLine = (line: string): boolean => !!parseTaskLine(line);
@@ -1,23 +1,43 @@
-import { ItemView, WorkspaceLeaf } from "obsidian";
+import { ItemView, Scope, TFile, ViewStateResult, WorkspaceLeaf } from "obsidian";
 import { TASK_TABLE_VIEW_TYPE, MyPluginSettings } from "../main";
 import { createStyles } from "../ui/styles";
 import { createScaffold } from "../ui/scaffold";
-import { mountTable } from "../ui/render";
+import { applyRowStyles, mountTable, patchFiles } from "../ui/render";
 import { wireAutoscan } from "../ui/autoscan";
+import { renderQueryErrors, wireQueryBar } from "../ui/querybar";
+import { wireWindow } from "../ui/virtual";
+import { redo, undo } from "../ui/history";
+import { clearSelection } from "../ui/selection";
 import { Store } from "../state/store";
-import type { TFile } from "obsidian";
+import { SavedCollapse, loadSavedCollapse, renameCollapsed, toSavedCollapse } from "../state/collapse";
+import { emptyTagFilter } from "../data/filter";
+import { defaultDisplay } from "../data/display";
+import type { DisplayMode, TagFilter } from "../types";
+import type { IndexListener } from "../data/fileindex";
 
 type PluginAPI = {
 	settings: MyPluginSettings;
 	openSettings: () => void;
 	getIndexedFiles: () => TFile[];
-	rescanIndex: () => Promise<number>;
+	isIndexed: (path: string) => boolean;
+	onIndexChange: (fn: IndexListener) => () => void;
+	saveSettings: () => Promise<void>;
+};
+
+// Per-leaf state that Obsidian saves in the workspace layout
+type TableViewState = {
+	tagFilter: TagFilter;
+	display: DisplayMode;
+	query: string;
+	collapse?: SavedCollapse;
 };
 
 export class TaskTableView extends ItemView {
 	private plugin: PluginAPI;
 	private store: Store | null = null;
 	private disposeAutoscan: (() => void) | null = null;
+	private disposeWindow: (() => void) | null = null;
+	private viewState: TableViewState = { tagFilter: emptyTagFilter(), display: defaultDisplay(), query: "" };
 
 	constructor(leaf: WorkspaceLeaf, plugin: PluginAPI) {
 		super(leaf);
@@ -38,19 +58,89 @@ export class TaskTableView extends ItemView {
 		// Pass providers object into Store
 		this.store = new Store(this.app, this.plugin.settings, ui, {
 			getIndexedFiles: this.plugin.getIndexedFiles,
+			isIndexed: this.plugin.isIndexed,
+			onIndexChange: this.plugin.onIndexChange,
+			persistState: () => this.app.workspace.requestSaveLayout(),
+			saveSettings: this.plugin.saveSettings,
 		});
+		this.store.tagFilter = this.viewState.tagFilter;
+		this.store.display = this.viewState.display;
+		this.store.setQuery(this.viewState.query);
+		if (this.viewState.collapse) loadSavedCollapse(this.store, this.viewState.collapse);
+		const store = this.store;
+		wireQueryBar(store, () => mountTable(store));
+		this.disposeWindow = wireWindow(store);
+		this.registerHistoryKeys(store);
+		this.registerEvent(this.app.vault.on("rename", (file, oldPath) => {
+			if (file instanceof TFile && this.store) {
+				renameCollapsed(this.store, oldPath, file.path);
+				this.store.persistState();
+			}
+		}));
+		// row colors use a different lightness ramp in light and dark themes
+		this.registerEvent(this.app.workspace.on("css-change", () => {
+			if (this.store) applyRowStyles(this.store);
+		}));
 
-		// Discover new files only now (view open)
-		await this.plugin.rescanIndex();
-
-		// Mount using cached index via store.providers
+		// Mount using the plugin's file index via store.providers
 		await mountTable(this.store);
 
-		// Autoscan: just refresh the table using cached files
-		this.disposeAutoscan = wireAutoscan(this.app, this.store, async () => {
+		// Autoscan: patch rows of modified files, remount when notes enter or leave the index
+		this.disposeAutoscan = wireAutoscan(this.app, this.store, async (paths, structural) => {
 			if (!this.store) return;
-			await mountTable(this.store);
+			if (structural) await mountTable(this.store);
+			else await patchFiles(this.store, paths);
+		});
+	}
+
+	// Mod+Z / Shift+Mod+Z while the view is focused, Esc clears the selection; text fields keep their native keys
+	private registerHistoryKeys(store: Store) {
+		this.scope = new Scope(this.app.scope);
+		const inTextField = (evt: KeyboardEvent) => {
+			const t = evt.target as HTMLElement | null;
+			return !!t && (t.isContentEditable || t instanceof HTMLInputElement || t instanceof HTMLTextAreaElement);
+		};
+		this.scope.register(["Mod"], "z", (evt) => {
+			if (inTextField(evt)) return true;
+			void undo(store);
+			return false;
 		});
+		this.scope.register(["Mod", "Shift"], "z", (evt) => {
+			if (inTextField(evt)) return true;
+			void redo(store);
+			return false;
+		});
+		this.scope.register([], "Escape", (evt) => {
+			if (inTextField(evt) || !store.selected.size) return true;
+			clearSelection(store);
+			return false;
+		});
+	}
+
+	getState(): Record<string, unknown> {
+		const tagFilter = this.store?.tagFilter ?? this.viewState.tagFilter;
+		const display = this.store?.display ?? this.viewState.display;
+		const query = this.store?.querySource ?? this.viewState.query;
+		const collapse = this.store ? toSavedCollapse(this.store) : this.viewState.collapse;
+		return { ...super.getState(), tagFilter, display, query, collapse };
+	}
+
+	async setState(state: unknown, result: ViewStateResult): Promise<void> {
+		const s = (state ?? {}) as Partial<TableViewState>;
+		if (s.tagFilter) this.viewState.tagFilter = { ...emptyTagFilter(), ...s.tagFilter };
+		if (s.display) this.viewState.display = { ...defaultDisplay(), ...s.display };
+		if (typeof s.query === "string") this.viewState.query = s.query;
+		if (s.collapse) this.viewState.collapse = s.collapse;
+		if (this.store && (s.tagFilter || s.display || typeof s.query === "string" || s.collapse)) {
+			this.store.tagFilter = this.viewState.tagFilter;
+			this.store.display = this.viewState.display;
+			this.store.setQuery(this.viewState.query);
+			if (s.collapse) loadSavedCollapse(this.store, s.collapse);
+			this.store.ui.queryInput.value = this.viewState.query;
+			renderQueryErrors(this.store);
+			await mountTable(this.store);
+		}
+		await super.setState(state, result);
 	}
 
 	async refresh() {
@@ -63,6 +153,8 @@ export class TaskTableView extends ItemView {
 		// remove autoscan listeners
 		try { this.disposeAutoscan?.(); } catch {}
 		this.disposeAutoscan = null;
+		this.disposeWindow?.();
+		this.disposeWindow = null;
 
 		// clear any per-row pending timers & unload components
 		if (this.store?.rowRefs?.length) {
@@ -77,6 +169,7 @@ export class TaskTableView extends ItemView {
 
 		// cancel autosave timer (see save.ts patch)
 		try { (await import("../io/save")).clearAutosave?.(this.store as any); } catch {}
+		if (this.store) this.viewState.collapse = toSavedCollapse(this.store);
 		this.store = null;
 	}
 }